@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs'
+import process from 'node:process'
+import fetchClient from '../cjs/index.js'
+
+const [input, output] = process.argv.slice(2)
+
+if (!input) {
+  process.stderr.write('Usage: fetch-client-openapi <openapi.json> [output.ts]\n')
+  process.exit(1)
+}
+
+const document = JSON.parse(readFileSync(input, 'utf8'))
+const code = fetchClient.generateOpenApiTypes(document)
+
+if (output) {
+  writeFileSync(output, code)
+} else {
+  process.stdout.write(code)
+}
@@ -0,0 +1,132 @@
+import { mergeHeaders } from './config'
+import type { FetchClient, FetchClientResponse, FetchOptions } from './index'
+import type { PathParams } from './path'
+import type { SchemaOutput, StandardSchemaV1 } from './schema'
+
+export type HttpMethod = 'DELETE' | 'GET' | 'HEAD' | 'OPTIONS' | 'PATCH' | 'POST' | 'PUT'
+
+export type EndpointDefinition = {
+  /**
+   * The type of the request body (use typed<T>()).
+   */
+  body?: unknown
+  /**
+   * The request method.
+   */
+  method: HttpMethod
+  /**
+   * The options of requests (ex: headers, responseType).
+   */
+  options?: FetchOptions
+  /**
+   * The path of the endpoint, with ":name" or "{name}" placeholders.
+   */
+  path: string
+  /**
+   * The type of the query params (use typed<T>()).
+   */
+  query?: unknown
+  /**
+   * The type of the response body (use typed<T>()), or a schema validating the response body.
+   */
+  response?: unknown
+}
+
+export type ApiDefinition = {
+  [name: string]: EndpointDefinition | ApiDefinition
+}
+
+/**
+ * Returns the keys of the arguments of an endpoint: path params, body and query.
+ */
+export type EndpointArgs<E extends EndpointDefinition> =
+  PathParams<E['path']> &
+  (E extends { body: infer B } ? undefined extends B ? { body?: B } : { body: B } : unknown) &
+  (E extends { query: infer Q } ? undefined extends Q ? { query?: Q } : { query: Q } : unknown)
+
+/**
+ * Returns the type of the response body of an endpoint.
+ */
+export type EndpointResponse<E extends EndpointDefinition> = E extends { response: infer R }
+  ? SchemaOutput<R, R>
+  : unknown
+
+/**
+ * Executes the request of an endpoint.
+ * Arguments are optional when the endpoint has no path params and no required body or query.
+ */
+export type EndpointFunction<E extends EndpointDefinition> = (
+  ...args: Record<string, never> extends EndpointArgs<E>
+    ? [args?: EndpointArgs<E>, options?: FetchOptions]
+    : [args: EndpointArgs<E>, options?: FetchOptions]
+) => Promise<FetchClientResponse<EndpointResponse<E>>>
+
+export type Api<D extends ApiDefinition> = {
+  [K in keyof D]: D[K] extends EndpointDefinition
+    ? EndpointFunction<D[K]>
+    : D[K] extends ApiDefinition ? Api<D[K]> : never
+}
+
+/**
+ * Returns undefined typed as T, used to declare the types of an endpoint.
+ */
+export function typed<T> (): T {
+  return undefined as T
+}
+
+/**
+ * Checks if a value is the definition of an endpoint.
+ * @param value
+ */
+function isEndpoint (value: EndpointDefinition | ApiDefinition): value is EndpointDefinition {
+  return typeof value.method === 'string' && typeof value.path === 'string'
+}
+
+/**
+ * Checks if a value is a Standard Schema validator.
+ * @param value
+ */
+function isSchema (value: unknown): value is StandardSchemaV1 {
+  return typeof value === 'object' && value != null && '~standard' in value
+}
+
+/**
+ * Returns the function executing the request of an endpoint.
+ * @param client
+ * @param endpoint
+ */
+function createEndpoint (client: FetchClient, endpoint: EndpointDefinition): (args?: Record<string, unknown>, options?: FetchOptions) => Promise<FetchClientResponse> {
+  const { method, options: defaults, path, response } = endpoint
+
+  return (args, options) => {
+    const { body, query, ...pathParams } = args ?? {}
+
+    return client.fetch<unknown, string, StandardSchemaV1 | undefined>(path, {
+      ...defaults,
+      ...options,
+      body: body as BodyInit | undefined,
+      headers: mergeHeaders(defaults?.headers, options?.headers),
+      method,
+      params: { ...defaults?.params, ...query as Record<string, unknown> | undefined, ...options?.params },
+      pathParams: pathParams as FetchOptions['pathParams'],
+      schema: options?.schema ?? defaults?.schema ?? (isSchema(response) ? response : undefined)
+    })
+  }
+}
+
+/**
+ * Returns functions executing the requests of endpoints, grouped like the definition.
+ * Requests are executed with client.fetch(), so hooks, middlewares and errors behave the same.
+ * @param client
+ * @param definition
+ */
+export function createApi<const D extends ApiDefinition> (client: FetchClient, definition: D): Api<D> {
+  const api: Record<string, unknown> = {}
+
+  Object.entries(definition).forEach(([name, value]) => {
+    api[name] = isEndpoint(value)
+      ? createEndpoint(client, value)
+      : createApi(client, value)
+  })
+  return api as Api<D>
+}
@@ -0,0 +1,204 @@
+import { FetchResponseError } from './errors'
+import type { FetchMiddleware } from './middleware'
+
+export type AuthToken = {
+  /**
+   * The date (in milliseconds) when the token expires.
+   */
+  expiresAt?: number
+  /**
+   * The token value.
+   */
+  value: string
+}
+
+export type AuthOptions = {
+  /**
+   * Returns the value of the header from the token (default: "<scheme> <token>").
+   * @param token
+   */
+  format?: (token: string) => string
+  /**
+   * The name of the header containing the credentials (default: "authorization").
+   */
+  header?: string
+  /**
+   * Returns the current token (ex: loaded from a storage), called when the manager has no token.
+   */
+  getToken?: () => AuthToken | string | null | undefined | Promise<AuthToken | string | null | undefined>
+  /**
+   * Function called when the token cannot be refreshed.
+   * @param error
+   */
+  onLogout?: (error: unknown) => void | Promise<void>
+  /**
+   * Returns a new token, called once for all requests waiting for it.
+   * @param token the expired or rejected token
+   */
+  refresh?: (token: AuthToken | undefined) => AuthToken | string | Promise<AuthToken | string>
+  /**
+   * The time in milliseconds before expiration when the token is refreshed (default: 30000).
+   */
+  refreshBeforeExpiry?: number
+  /**
+   * The authentication scheme (default: "Bearer").
+   */
+  scheme?: 'Basic' | 'Bearer' | string
+  /**
+   * Tells if the token must be refreshed after an error (default: status 401).
+   * @param error
+   */
+  shouldRefresh?: (error: unknown) => boolean
+}
+
+/**
+ * Returns the credentials of Basic auth (base64 of "username:password").
+ * @param username
+ * @param password
+ */
+export function basicAuth (username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`)
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+}
+
+/**
+ * Returns a token object.
+ * @param token
+ */
+function toToken (token: AuthToken | string | null | undefined): AuthToken | undefined {
+  if (token == null) {
+    return undefined
+  }
+  return typeof token === 'string' ? { value: token } : token
+}
+
+/**
+ * Adds credentials to requests, and refreshes the token when it expires or when a request is unauthorized.
+ * Concurrent requests share a single refresh, then are replayed once with the new token.
+ */
+export class AuthManager {
+  private readonly options: AuthOptions
+  private refreshing?: Promise<AuthToken | undefined>
+  private token?: AuthToken
+
+  constructor (options: AuthOptions) {
+    this.options = {
+      header: 'authorization',
+      refreshBeforeExpiry: 30000,
+      scheme: 'Bearer',
+      ...options
+    }
+  }
+
+  /**
+   * Removes the token.
+   */
+  clearToken (): void {
+    this.token = undefined
+  }
+
+  /**
+   * Returns the current token, refreshed if it is about to expire.
+   */
+  async getToken (): Promise<AuthToken | undefined> {
+    if (this.refreshing) {
+      return this.refreshing
+    }
+    if (!this.token && this.options.getToken) {
+      this.token = toToken(await this.options.getToken())
+    }
+    const { expiresAt } = this.token ?? {}
+
+    if (expiresAt != null && this.options.refresh &&
+      expiresAt - (this.options.refreshBeforeExpiry ?? 0) <= Date.now()) {
+      return this.refresh(this.token)
+    }
+    return this.token
+  }
+
+  /**
+   * Refreshes the token, or waits for the refresh in progress.
+   * The token is not refreshed if it has changed since it was rejected.
+   * @param rejected the rejected token
+   */
+  refresh (rejected?: AuthToken): Promise<AuthToken | undefined> {
+    const { onLogout, refresh } = this.options
+
+    if (this.refreshing) {
+      return this.refreshing
+    }
+    if (!refresh) {
+      return Promise.resolve(this.token)
+    }
+    if (this.token?.value !== rejected?.value) {
+      return Promise.resolve(this.token)
+    }
+
+    this.refreshing = (async () => {
+      try {
+        this.token = toToken(await refresh(rejected))
+        return this.token
+      } catch (error) {
+        this.token = undefined
+        await onLogout?.(error)
+        throw error
+      } finally {
+        this.refreshing = undefined
+      }
+    })()
+    return this.refreshing
+  }
+
+  /**
+   * Replaces the token (ex: after login).
+   * @param token
+   */
+  setToken (token: AuthToken | string | null | undefined): void {
+    this.token = toToken(token)
+  }
+
+  /**
+   * The middleware adding credentials to requests.
+   * @param context
+   * @param next
+   */
+  middleware: FetchMiddleware = async (context, next) => {
+    if (context.options.auth === false) {
+      return next()
+    }
+    const token = await this.getToken()
+    this.setHeader(context.options, token)
+
+    try {
+      return await next()
+    } catch (error) {
+      const { shouldRefresh } = this.options
+      const unauthorized = shouldRefresh
+        ? shouldRefresh(error)
+        : error instanceof FetchResponseError && error.response.status === 401
+
+      // A stream body cannot be sent twice.
+      if (!unauthorized || !this.options.refresh || context.options.body instanceof ReadableStream) {
+        throw error
+      }
+      // Replay the request once with the new token.
+      this.setHeader(context.options, await this.refresh(token))
+      return next()
+    }
+  }
+
+  /**
+   * Sets the credentials header of request options.
+   * @param options
+   * @param token
+   */
+  private setHeader (options: { headers?: HeadersInit }, token: AuthToken | undefined): void {
+    const { format, header = 'authorization', scheme } = this.options
+    const headers = new Headers(options.headers)
+
+    if (token) {
+      headers.set(header, format ? format(token.value) : `${scheme ? `${scheme} ` : ''}${token.value}`)
+      options.headers = headers
+    }
+  }
+}
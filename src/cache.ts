@@ -0,0 +1,490 @@
+import { FetchError } from './errors'
+import type { FetchClientResponse, FetchResponseType } from './index'
+import type { FetchContext, FetchMiddleware } from './middleware'
+import { isAsyncIterable } from './records'
+
+/**
+ * The cache mode of a request:
+ * - "default": use the cached response if fresh, revalidate it if stale
+ * - "force-cache": use the cached response even if stale, fetch it if missing
+ * - "no-cache": always revalidate the cached response
+ * - "no-store": do not use nor update the cache
+ * - "only-if-cached": use the cached response even if stale, throw an error if missing
+ * - "reload": ignore the cached response, but update the cache
+ */
+export type FetchCacheMode =
+  'default'
+  | 'force-cache'
+  | 'no-cache'
+  | 'no-store'
+  | 'only-if-cached'
+  | 'reload'
+
+export type CacheEntry = {
+  /**
+   * The parsed response body.
+   */
+  body: unknown
+  /**
+   * The date (in milliseconds) when the response becomes stale.
+   */
+  expiresAt: number
+  /**
+   * The response headers.
+   */
+  headers: Record<string, string>
+  /**
+   * Tells if the request was redirected.
+   */
+  redirected: boolean
+  /**
+   * The response type used to parse the body.
+   */
+  responseType: FetchResponseType
+  /**
+   * The date (in milliseconds) until the stale response can be used while revalidating.
+   */
+  staleUntil: number
+  /**
+   * The response status code.
+   */
+  status: number
+  /**
+   * The response status text.
+   */
+  statusText: string
+  /**
+   * The date (in milliseconds) when the response was stored.
+   */
+  storedAt: number
+  /**
+   * The response type.
+   */
+  type: ResponseType
+  /**
+   * The values of request headers listed in the Vary response header.
+   */
+  vary: Record<string, string | null>
+}
+
+export type CacheStore = {
+  /**
+   * Removes an entry.
+   * @param key
+   */
+  delete (key: string): void | Promise<void>
+  /**
+   * Returns an entry.
+   * @param key
+   */
+  get (key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+  /**
+   * Returns all keys.
+   */
+  keys (): string[] | Promise<string[]>
+  /**
+   * Adds or replaces an entry.
+   * @param key
+   * @param entry
+   */
+  set (key: string, entry: CacheEntry): void | Promise<void>
+}
+
+export type CacheOptions = {
+  /**
+   * The store of cached responses (default: MemoryCacheStore).
+   */
+  store?: CacheStore
+}
+
+/**
+ * Stores cached responses in memory, and removes the least recently used when full.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>()
+  private readonly maxEntries: number
+
+  constructor (options?: { maxEntries?: number }) {
+    this.maxEntries = options?.maxEntries ?? 100
+  }
+
+  delete (key: string): void {
+    this.entries.delete(key)
+  }
+
+  get (key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key)
+
+    // Move the entry to the end of the list.
+    if (entry) {
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  keys (): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  set (key: string, entry: CacheEntry): void {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    // Remove the least recently used entries.
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string)
+    }
+  }
+}
+
+export type StorageLike = Pick<Storage, 'getItem' | 'key' | 'length' | 'removeItem' | 'setItem'>
+
+/**
+ * Checks if a body is kept by JSON serialization (ex: not a Blob, an ArrayBuffer or a FormData).
+ * @param body
+ */
+function isJsonSafe (body: unknown): boolean {
+  if (body == null || typeof body !== 'object' || Array.isArray(body)) {
+    return true
+  }
+  const proto = Object.getPrototypeOf(body)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Stores cached responses in a Web Storage (ex: localStorage).
+ * Entries are serialized to JSON, so only JSON and text bodies are persisted (other responses are not cached).
+ */
+export class StorageCacheStore implements CacheStore {
+  private readonly prefix: string
+  private readonly storage: StorageLike
+
+  constructor (storage: StorageLike, options?: { prefix?: string }) {
+    this.storage = storage
+    this.prefix = options?.prefix ?? 'fetch-client:'
+  }
+
+  delete (key: string): void {
+    this.storage.removeItem(this.prefix + key)
+  }
+
+  get (key: string): CacheEntry | undefined {
+    const value = this.storage.getItem(this.prefix + key)
+    return value != null ? JSON.parse(value) : undefined
+  }
+
+  keys (): string[] {
+    const keys: string[] = []
+
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i)
+
+      if (key != null && key.startsWith(this.prefix)) {
+        keys.push(key.substring(this.prefix.length))
+      }
+    }
+    return keys
+  }
+
+  set (key: string, entry: CacheEntry): void {
+    if (!isJsonSafe(entry.body)) {
+      this.delete(key)
+      return
+    }
+    this.storage.setItem(this.prefix + key, JSON.stringify(entry))
+  }
+}
+
+/**
+ * Returns the directives of a Cache-Control header (ex: { "max-age": "60", "no-cache": "" }).
+ * @param value
+ */
+export function parseCacheControl (value: string | null | undefined): Record<string, string> {
+  const directives: Record<string, string> = {}
+
+  if (value) {
+    value.split(',').forEach((part) => {
+      const [name, ...rest] = part.trim().split('=')
+
+      if (name) {
+        directives[name.toLowerCase()] = rest.join('=').replace(/^"|"$/g, '')
+      }
+    })
+  }
+  return directives
+}
+
+/**
+ * Returns the freshness of a response, or undefined if it must not be stored.
+ * @param headers
+ * @param now
+ */
+function getFreshness (headers: Record<string, string>, now: number): Pick<CacheEntry, 'expiresAt' | 'staleUntil'> | undefined {
+  const directives = parseCacheControl(headers['cache-control'])
+
+  if ('no-store' in directives) {
+    return undefined
+  }
+
+  let lifetime = 0
+
+  if (!('no-cache' in directives)) {
+    if (directives['max-age'] != null) {
+      lifetime = (Number(directives['max-age']) || 0) * 1000
+    } else if (headers.expires) {
+      const date = headers.date ? Date.parse(headers.date) : now
+      const expires = Date.parse(headers.expires)
+      lifetime = Number.isNaN(expires) || Number.isNaN(date) ? 0 : expires - date
+    }
+  }
+
+  const age = (Number(headers.age) || 0) * 1000
+  const expiresAt = now + Math.max(lifetime - age, 0)
+  const staleWhileRevalidate = 'must-revalidate' in directives
+    ? 0
+    : (Number(directives['stale-while-revalidate']) || 0) * 1000
+
+  return {
+    expiresAt,
+    staleUntil: expiresAt + staleWhileRevalidate
+  }
+}
+
+/**
+ * Returns the values of request headers listed in the Vary header, or undefined if Vary is "*".
+ * @param vary
+ * @param requestHeaders
+ */
+function getVaryValues (vary: string | undefined, requestHeaders: Headers): Record<string, string | null> | undefined {
+  const values: Record<string, string | null> = {}
+
+  if (vary) {
+    for (const name of vary.split(',').map((n) => n.trim().toLowerCase())) {
+      if (name === '*') {
+        return undefined
+      }
+      if (name) {
+        values[name] = requestHeaders.get(name)
+      }
+    }
+  }
+  return values
+}
+
+/**
+ * Returns a copy of a body, so callers cannot modify the cached entry.
+ * @param body
+ */
+function cloneBody (body: unknown): unknown {
+  // FormData cannot be cloned with structuredClone().
+  if (body instanceof FormData) {
+    const copy = new FormData()
+    body.forEach((value, name) => copy.append(name, value))
+    return copy
+  }
+  try {
+    return structuredClone(body)
+  } catch {
+    // Return the body if it cannot be cloned (ex: Document).
+    return body
+  }
+}
+
+/**
+ * Returns a client response from a cache entry.
+ * @param entry
+ */
+function toResponse (entry: CacheEntry): FetchClientResponse {
+  return {
+    body: cloneBody(entry.body),
+    headers: { ...entry.headers },
+    original: new Response(null, {
+      headers: entry.headers,
+      status: entry.status,
+      statusText: entry.statusText
+    }),
+    redirected: entry.redirected,
+    status: entry.status,
+    statusText: entry.statusText,
+    type: entry.type
+  }
+}
+
+/**
+ * Caches responses of GET requests following Cache-Control directives,
+ * and revalidates stale responses using ETag and Last-Modified headers.
+ */
+export class HttpCache {
+  public readonly store: CacheStore
+  private readonly revalidating = new Set<string>()
+
+  constructor (options?: CacheOptions) {
+    this.store = options?.store ?? new MemoryCacheStore()
+  }
+
+  /**
+   * Removes entries with a key (URL) starting with prefix.
+   * @param prefix
+   */
+  async invalidate (prefix: string = ''): Promise<void> {
+    const keys = await this.store.keys()
+
+    for (const key of keys) {
+      if (key.startsWith(prefix)) {
+        await this.store.delete(key)
+      }
+    }
+  }
+
+  /**
+   * The middleware handling the cache of requests.
+   * @param context
+   * @param next
+   */
+  middleware: FetchMiddleware = async (context, next) => {
+    const method = context.options.method?.toUpperCase() ?? 'GET'
+    const mode = context.options.cacheMode ?? 'default'
+    const key = context.url
+
+    if (method !== 'GET') {
+      const response = await next()
+
+      // Invalidate the cached response after an unsafe request.
+      if (method !== 'HEAD' && method !== 'OPTIONS') {
+        await this.store.delete(key)
+      }
+      return response
+    }
+
+    if (mode === 'no-store') {
+      return next()
+    }
+
+    let entry = mode !== 'reload' ? await this.store.get(key) : undefined
+
+    // Ignore entry if it does not match the request.
+    if (entry && !this.matches(entry, context)) {
+      entry = undefined
+    }
+
+    if (entry) {
+      const now = Date.now()
+
+      if (mode === 'force-cache' || mode === 'only-if-cached' || (mode === 'default' && now < entry.expiresAt)) {
+        return toResponse(entry)
+      }
+      if (mode === 'default' && now < entry.staleUntil) {
+        // Return the stale response, and revalidate it in background.
+        if (!this.revalidating.has(key)) {
+          this.revalidating.add(key)
+          this.revalidate(context, next, entry)
+            .catch(() => undefined)
+            .finally(() => this.revalidating.delete(key))
+        }
+        return toResponse(entry)
+      }
+    } else if (mode === 'only-if-cached') {
+      throw new FetchError(`No cached response for "${key}"`, { method, url: key })
+    }
+    return this.revalidate(context, next, entry)
+  }
+
+  /**
+   * Checks if the entry can be used for the request.
+   * @param entry
+   * @param context
+   */
+  private matches (entry: CacheEntry, context: FetchContext): boolean {
+    const headers = new Headers(context.options.headers)
+    return entry.responseType === context.options.responseType &&
+      Object.entries(entry.vary).every(([name, value]) => headers.get(name) === value)
+  }
+
+  /**
+   * Returns the cached response after a "not modified" response, and updates its freshness.
+   * @param key
+   * @param entry
+   * @param response
+   */
+  private async refresh (key: string, entry: CacheEntry, response: FetchClientResponse): Promise<FetchClientResponse> {
+    const headers = { ...entry.headers, ...response.headers }
+    const freshness = getFreshness(headers, Date.now())
+
+    if (!freshness) {
+      await this.store.delete(key)
+      return toResponse(entry)
+    }
+    const updated: CacheEntry = { ...entry, ...freshness, headers, storedAt: Date.now() }
+    await this.store.set(key, updated)
+    return toResponse(updated)
+  }
+
+  /**
+   * Executes the request (conditional if entry is defined) and updates the cache.
+   * @param context
+   * @param next
+   * @param entry
+   */
+  private async revalidate (context: FetchContext, next: () => Promise<FetchClientResponse>, entry?: CacheEntry): Promise<FetchClientResponse> {
+    const key = context.url
+
+    if (entry) {
+      const headers = new Headers(context.options.headers)
+
+      if (entry.headers.etag && !headers.has('if-none-match')) {
+        headers.set('if-none-match', entry.headers.etag)
+      }
+      if (entry.headers['last-modified'] && !headers.has('if-modified-since')) {
+        headers.set('if-modified-since', entry.headers['last-modified'])
+      }
+      const { validateStatus } = context.options
+      // The status 304 is expected, so it must not be reported as an error.
+      context.options = {
+        ...context.options,
+        headers,
+        validateStatus: (status) => status === 304 || (validateStatus ? validateStatus(status) : status >= 200 && status < 300)
+      }
+    }
+    const response = await next()
+
+    if (entry && response.status === 304) {
+      return this.refresh(key, entry, response)
+    }
+    await this.save(key, context, response)
+    return response
+  }
+
+  /**
+   * Stores the response if possible.
+   * @param key
+   * @param context
+   * @param response
+   */
+  private async save (key: string, context: FetchContext, response: FetchClientResponse): Promise<void> {
+    const now = Date.now()
+    const freshness = getFreshness(response.headers, now)
+    const vary = getVaryValues(response.headers.vary, new Headers(context.options.headers))
+
+    if (response.status !== 200 || !freshness || !vary ||
+      response.body instanceof ReadableStream || isAsyncIterable(response.body)) {
+      return
+    }
+    // Ignore response that cannot be used nor revalidated.
+    if (freshness.staleUntil <= now && !response.headers.etag && !response.headers['last-modified']) {
+      return
+    }
+    await this.store.set(key, {
+      ...freshness,
+      body: cloneBody(response.body),
+      headers: response.headers,
+      redirected: response.redirected,
+      responseType: context.options.responseType,
+      status: response.status,
+      statusText: response.statusText,
+      storedAt: now,
+      type: response.type,
+      vary
+    })
+  }
+}
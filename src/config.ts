@@ -0,0 +1,68 @@
+import type { FetchClientConfig } from './index'
+
+/**
+ * Returns headers as a plain object.
+ * @param headers
+ */
+function toRecord (headers: HeadersInit | undefined): Record<string, string> {
+  if (headers instanceof Headers || Array.isArray(headers)) {
+    const record: Record<string, string> = {}
+    new Headers(headers).forEach((value, name) => {
+      record[name] = value
+    })
+    return record
+  }
+  return { ...headers }
+}
+
+/**
+ * Returns headers merged with other headers (header names are case-insensitive).
+ * @param headers
+ * @param overrides
+ */
+export function mergeHeaders (headers: HeadersInit | undefined, overrides: HeadersInit | undefined): Record<string, string> {
+  const result = toRecord(headers)
+
+  Object.entries(toRecord(overrides)).forEach(([name, value]) => {
+    Object.keys(result)
+      .filter((key) => key.toLowerCase() === name.toLowerCase())
+      .forEach((key) => delete result[key])
+    result[name] = value
+  })
+  return result
+}
+
+/**
+ * Returns the config of a client merged with another config:
+ * - headers, options, params, responseTypes and serializers are merged (values of config override parent values)
+ * - middlewares, transformRequest and transformResponse are appended to parent arrays
+ * - other values of config replace parent values
+ * @param parent
+ * @param config
+ */
+export function mergeConfig (parent: FetchClientConfig, config: Partial<FetchClientConfig>): FetchClientConfig {
+  return {
+    ...parent,
+    ...config,
+    headers: mergeHeaders(parent.headers, config.headers),
+    middlewares: [...parent.middlewares, ...config.middlewares ?? []],
+    options: {
+      ...parent.options,
+      ...config.options,
+      ...((parent.options.headers || config.options?.headers) && {
+        headers: mergeHeaders(parent.options.headers, config.options?.headers)
+      })
+    },
+    ...((parent.params || config.params) && {
+      params: { ...parent.params, ...config.params }
+    }),
+    ...((parent.responseTypes || config.responseTypes) && {
+      responseTypes: { ...parent.responseTypes, ...config.responseTypes }
+    }),
+    ...((parent.serializers || config.serializers) && {
+      serializers: { ...parent.serializers, ...config.serializers }
+    }),
+    transformRequest: [...parent.transformRequest, ...config.transformRequest ?? []],
+    transformResponse: [...parent.transformResponse, ...config.transformResponse ?? []]
+  }
+}
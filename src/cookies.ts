@@ -0,0 +1,378 @@
+export type Cookie = {
+  /**
+   * The date (in milliseconds) when the cookie was created.
+   */
+  createdAt: number
+  /**
+   * The domain of the cookie.
+   */
+  domain: string
+  /**
+   * The date (in milliseconds) when the cookie expires (undefined for session cookies).
+   */
+  expiresAt?: number
+  /**
+   * Tells if the cookie is sent only to the host that set it.
+   */
+  hostOnly: boolean
+  /**
+   * Tells if the cookie is not accessible to scripts.
+   */
+  httpOnly: boolean
+  /**
+   * The name of the cookie.
+   */
+  name: string
+  /**
+   * The path of the cookie.
+   */
+  path: string
+  /**
+   * The SameSite attribute of the cookie.
+   */
+  sameSite?: string
+  /**
+   * Tells if the cookie is sent only over HTTPS.
+   */
+  secure: boolean
+  /**
+   * The value of the cookie.
+   */
+  value: string
+}
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+const MAX_REDIRECTS = 20
+
+/**
+ * Common public suffixes with several labels (domains without a dot are also public suffixes).
+ */
+const PUBLIC_SUFFIXES = [
+  'ac.uk', 'co.in', 'co.jp', 'co.kr', 'co.nz', 'co.uk', 'co.za', 'com.ar', 'com.au', 'com.br', 'com.cn',
+  'com.mx', 'com.tr', 'com.tw', 'gov.uk', 'ne.jp', 'net.au', 'or.jp', 'org.au', 'org.uk',
+  'appspot.com', 'azurewebsites.net', 'cloudfront.net', 'github.io', 'herokuapp.com', 'netlify.app',
+  'pages.dev', 'vercel.app', 'workers.dev'
+]
+
+/**
+ * Tells if the host is an IP address.
+ * @param host
+ */
+function isIpAddress (host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':')
+}
+
+/**
+ * Checks if a host matches a cookie domain (RFC 6265, section 5.1.3).
+ * @param host
+ * @param domain
+ */
+function domainMatch (host: string, domain: string): boolean {
+  return host === domain || (host.endsWith(`.${domain}`) && !isIpAddress(host))
+}
+
+/**
+ * Tells if a domain is a public suffix (ex: "com", "co.uk"), where cookies cannot be shared between hosts.
+ * @param domain
+ */
+function isPublicSuffix (domain: string): boolean {
+  return !domain.includes('.') || PUBLIC_SUFFIXES.includes(domain)
+}
+
+/**
+ * Returns the default path of a cookie from the request path (RFC 6265, section 5.1.4).
+ * @param path
+ */
+function defaultPath (path: string): string {
+  const index = path.lastIndexOf('/')
+  return !path.startsWith('/') || index <= 0 ? '/' : path.substring(0, index)
+}
+
+/**
+ * Checks if a request path matches a cookie path (RFC 6265, section 5.1.4).
+ * @param path
+ * @param cookiePath
+ */
+function pathMatch (path: string, cookiePath: string): boolean {
+  return path === cookiePath || (path.startsWith(cookiePath) &&
+    (cookiePath.endsWith('/') || path.charAt(cookiePath.length) === '/'))
+}
+
+/**
+ * Returns the values of Set-Cookie headers,
+ * split from the merged header if Headers.getSetCookie() is not available (old runtimes).
+ * @param headers
+ */
+export function getSetCookies (headers: Headers): string[] {
+  if (typeof headers.getSetCookie === 'function') {
+    return headers.getSetCookie()
+  }
+  const value = headers.get('set-cookie')
+  // Split at commas followed by a cookie name, so commas of Expires dates are kept.
+  return value ? value.split(/,(?=\s*[^;,=\s]+=)/).map((header) => header.trim()) : []
+}
+
+/**
+ * Returns a cookie from a Set-Cookie header, or undefined if it must be ignored (RFC 6265, section 5.2).
+ * @param header
+ * @param url the URL of the request that received the cookie
+ * @param now
+ */
+export function parseSetCookie (header: string, url: string, now: number = Date.now()): Cookie | undefined {
+  const [pair, ...attributes] = header.split(';')
+  const index = pair.indexOf('=')
+
+  if (index === -1) {
+    return undefined
+  }
+  const name = pair.substring(0, index).trim()
+
+  if (!name) {
+    return undefined
+  }
+  const { hostname, pathname } = new URL(url)
+  const host = hostname.toLowerCase()
+  const cookie: Cookie = {
+    createdAt: now,
+    domain: host,
+    hostOnly: true,
+    httpOnly: false,
+    name,
+    path: defaultPath(pathname),
+    secure: false,
+    value: pair.substring(index + 1).trim()
+  }
+  let expires: number | undefined
+  let maxAge: number | undefined
+
+  for (const attribute of attributes) {
+    const separator = attribute.indexOf('=')
+    const key = (separator === -1 ? attribute : attribute.substring(0, separator)).trim().toLowerCase()
+    const value = separator === -1 ? '' : attribute.substring(separator + 1).trim()
+
+    if (key === 'domain' && value) {
+      const domain = value.replace(/^\./, '').toLowerCase()
+
+      // Ignore cookie set for another domain.
+      if (!domainMatch(host, domain)) {
+        return undefined
+      }
+      // Ignore cookie set for a public suffix, unless it is the host (RFC 6265, section 5.3).
+      if (isPublicSuffix(domain)) {
+        if (domain !== host) {
+          return undefined
+        }
+        continue
+      }
+      cookie.domain = domain
+      cookie.hostOnly = false
+    } else if (key === 'expires') {
+      const date = Date.parse(value)
+
+      if (!Number.isNaN(date)) {
+        expires = date
+      }
+    } else if (key === 'httponly') {
+      cookie.httpOnly = true
+    } else if (key === 'max-age' && /^-?\d+$/.test(value)) {
+      maxAge = Number(value)
+    } else if (key === 'path') {
+      cookie.path = value.startsWith('/') ? value : defaultPath(pathname)
+    } else if (key === 'samesite' && value) {
+      cookie.sameSite = value
+    } else if (key === 'secure') {
+      cookie.secure = true
+    }
+  }
+
+  // Max-Age has precedence over Expires.
+  if (maxAge != null) {
+    cookie.expiresAt = maxAge <= 0 ? 0 : now + maxAge * 1000
+  } else if (expires != null) {
+    cookie.expiresAt = expires
+  }
+  return cookie
+}
+
+/**
+ * Stores cookies received in responses, and returns the cookies to send with requests.
+ */
+export class CookieJar {
+  private cookies: Cookie[] = []
+
+  constructor (cookies?: Cookie[]) {
+    cookies?.forEach((cookie) => this.store(cookie))
+  }
+
+  /**
+   * Returns a cookie jar from serialized cookies.
+   * @param json
+   */
+  static fromJSON (json: string | Cookie[]): CookieJar {
+    return new CookieJar(typeof json === 'string' ? JSON.parse(json) : json)
+  }
+
+  /**
+   * Removes all cookies, or cookies of a domain.
+   * @param domain
+   */
+  clear (domain?: string): void {
+    this.cookies = domain != null
+      ? this.cookies.filter((cookie) => cookie.domain !== domain.toLowerCase())
+      : []
+  }
+
+  /**
+   * Returns the value of the Cookie header to send with a request.
+   * @param url
+   */
+  getCookieHeader (url: string): string {
+    return this.getCookies(url)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join('; ')
+  }
+
+  /**
+   * Returns the cookies to send with a request (RFC 6265, section 5.4).
+   * @param url
+   */
+  getCookies (url: string): Cookie[] {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return []
+    }
+    const host = parsed.hostname.toLowerCase()
+    const now = Date.now()
+
+    this.removeExpired(now)
+
+    return this.cookies
+      .filter((cookie) => (cookie.hostOnly ? host === cookie.domain : domainMatch(host, cookie.domain)) &&
+        pathMatch(parsed.pathname, cookie.path) &&
+        (!cookie.secure || parsed.protocol === 'https:'))
+      // Cookies with longer paths are listed first, then the oldest.
+      .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt)
+  }
+
+  /**
+   * Stores a cookie from a Set-Cookie header.
+   * @param header
+   * @param url the URL of the request that received the cookie
+   */
+  setCookie (header: string, url: string): void {
+    const cookie = parseSetCookie(header, url)
+
+    if (cookie) {
+      this.store(cookie)
+    }
+  }
+
+  /**
+   * Returns persistent and session cookies (used by JSON.stringify()).
+   */
+  toJSON (): Cookie[] {
+    this.removeExpired(Date.now())
+    return this.cookies.map((cookie) => ({ ...cookie }))
+  }
+
+  /**
+   * Removes expired cookies.
+   * @param now
+   */
+  private removeExpired (now: number): void {
+    this.cookies = this.cookies.filter((cookie) => cookie.expiresAt == null || cookie.expiresAt > now)
+  }
+
+  /**
+   * Adds or replaces a cookie, or removes it if expired.
+   * @param cookie
+   */
+  private store (cookie: Cookie): void {
+    const index = this.cookies.findIndex((c) => c.name === cookie.name &&
+      c.domain === cookie.domain &&
+      c.path === cookie.path)
+
+    if (index !== -1) {
+      // Keep the creation date of the replaced cookie.
+      const [old] = this.cookies.splice(index, 1)
+      cookie = { ...cookie, createdAt: old.createdAt }
+    }
+    if (cookie.expiresAt == null || cookie.expiresAt > Date.now()) {
+      this.cookies.push(cookie)
+    }
+  }
+}
+
+/**
+ * Executes a request with the cookies of the jar, stores the cookies of the response,
+ * and follows redirects manually so cookies are stored and sent at each step.
+ * @param jar
+ * @param url
+ * @param init
+ * @param fetcher
+ */
+export async function fetchWithCookies (
+  jar: CookieJar,
+  url: string,
+  init: RequestInit,
+  fetcher: (url: string, init: RequestInit) => Promise<Response> = fetch
+): Promise<Response> {
+  const follow = init.redirect == null || init.redirect === 'follow'
+  let currentUrl = url
+  let currentInit = init
+
+  for (let redirects = 0; ; redirects++) {
+    const headers = new Headers(currentInit.headers)
+    const cookies = jar.getCookieHeader(currentUrl)
+
+    if (cookies) {
+      headers.set('cookie', headers.has('cookie') ? `${headers.get('cookie')}; ${cookies}` : cookies)
+    }
+
+    const response = await fetcher(currentUrl, {
+      ...currentInit,
+      headers,
+      redirect: follow ? 'manual' : currentInit.redirect
+    })
+    getSetCookies(response.headers).forEach((header) => jar.setCookie(header, currentUrl))
+
+    const location = response.headers.get('location')
+    const method = currentInit.method?.toUpperCase() ?? 'GET'
+
+    if (!follow || !location || !REDIRECT_STATUSES.includes(response.status) ||
+      // A stream body cannot be sent twice.
+      (currentInit.body instanceof ReadableStream && response.status !== 303)) {
+      if (redirects > 0) {
+        Object.defineProperties(response, {
+          redirected: { value: true },
+          url: { value: currentUrl }
+        })
+      }
+      return response
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new TypeError(`Too many redirects for "${url}"`)
+    }
+    await response.body?.cancel()
+
+    const nextUrl = new URL(location, currentUrl)
+    const nextHeaders = new Headers(currentInit.headers)
+
+    // Do not send credentials to another origin.
+    if (nextUrl.origin !== new URL(currentUrl).origin) {
+      nextHeaders.delete('authorization')
+    }
+    currentInit = { ...currentInit, headers: nextHeaders }
+
+    // Change method to GET and remove body (Fetch standard, section 4.4).
+    if ((response.status === 303 && method !== 'HEAD') ||
+      ((response.status === 301 || response.status === 302) && method === 'POST')) {
+      nextHeaders.delete('content-type')
+      nextHeaders.delete('content-length')
+      currentInit = { ...currentInit, body: undefined, method: 'GET' }
+    }
+    currentUrl = nextUrl.href
+  }
+}
@@ -0,0 +1,176 @@
+import type { FetchContext } from './middleware'
+
+export type DedupeOptions = {
+  /**
+   * Returns the key identifying identical requests.
+   * By default, the key contains the method, the URL, the headers and a digest of the body.
+   * @param context
+   */
+  key?: (context: FetchContext) => string
+  /**
+   * The methods of requests that can be deduplicated (default: GET and HEAD).
+   * Requests with a body that is not a string or URLSearchParams are never deduplicated.
+   */
+  methods?: string[]
+}
+
+type Waiter = {
+  reject: (reason: unknown) => void
+  resolve: (response: Response) => void
+}
+
+type InFlightRequest = {
+  controller: AbortController
+  waiters: Waiter[]
+}
+
+/**
+ * Returns the digest of a string (FNV-1a, 32 bits).
+ * @param value
+ */
+function digest (value: string): string {
+  let hash = 0x811c9dc5
+
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Returns the body of a request as a string,
+ * or undefined if the body cannot be read without consuming it (ex: Blob, FormData, stream).
+ * @param body
+ */
+function serializeBody (body: BodyInit | null | undefined): string | undefined {
+  if (body == null) {
+    return ''
+  }
+  if (typeof body === 'string') {
+    return body
+  }
+  if (body instanceof URLSearchParams) {
+    return body.toString()
+  }
+  return undefined
+}
+
+/**
+ * Returns the default key of a request.
+ * @param context
+ */
+export function getDedupeKey (context: FetchContext): string {
+  const headers: string[] = []
+  new Headers(context.options.headers).forEach((value, name) => {
+    headers.push(`${name}:${value}`)
+  })
+  const method = context.options.method?.toUpperCase() ?? 'GET'
+  const key = [method, context.url, ...headers.sort()]
+  const body = serializeBody(context.options.body)
+
+  if (body) {
+    key.push(`body:${body.length}:${digest(body)}`)
+  }
+  return key.join('\n')
+}
+
+/**
+ * Shares a single network request between concurrent identical requests.
+ */
+export class RequestDeduplicator {
+  private readonly inFlight = new Map<string, InFlightRequest>()
+  private readonly options: Required<DedupeOptions>
+
+  constructor (options?: DedupeOptions) {
+    this.options = {
+      key: getDedupeKey,
+      methods: ['GET', 'HEAD'],
+      ...options
+    }
+  }
+
+  /**
+   * Executes the request, or waits for the identical request in progress.
+   * Each caller receives its own Response (a clone), so the body can be read independently.
+   * The shared request is aborted only when all callers have aborted.
+   * @param context
+   * @param signal
+   * @param execute
+   */
+  fetch (context: FetchContext, signal: AbortSignal | null | undefined, execute: (signal?: AbortSignal | null) => Promise<Response>): Promise<Response> {
+    const method = context.options.method?.toUpperCase() ?? 'GET'
+
+    // Do not share requests with a body that cannot be compared.
+    if (!this.options.methods.includes(method) || serializeBody(context.options.body) == null) {
+      return execute(signal)
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason)
+    }
+
+    const key = this.options.key(context)
+    const current = this.inFlight.get(key) ?? this.start(key, execute)
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        current.waiters.splice(current.waiters.indexOf(waiter), 1)
+        reject(signal?.reason)
+
+        // Abort the request if nobody is waiting for it.
+        if (current.waiters.length === 0) {
+          this.remove(key, current)
+          current.controller.abort(signal?.reason)
+        }
+      }
+      const waiter: Waiter = {
+        reject: (reason) => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(reason)
+        },
+        resolve: (response) => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(response)
+        }
+      }
+      current.waiters.push(waiter)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  /**
+   * Executes the request and shares the response with waiters.
+   * @param key
+   * @param execute
+   */
+  private start (key: string, execute: (signal?: AbortSignal | null) => Promise<Response>): InFlightRequest {
+    const request: InFlightRequest = { controller: new AbortController(), waiters: [] }
+    this.inFlight.set(key, request)
+
+    execute(request.controller.signal).then((response) => {
+      this.remove(key, request)
+      const { waiters } = request
+
+      // The last waiter receives the original response, so no body is left unread.
+      waiters.forEach((waiter, index) => {
+        waiter.resolve(index === waiters.length - 1 ? response : response.clone())
+      })
+    }, (error) => {
+      this.remove(key, request)
+      request.waiters.forEach((waiter) => waiter.reject(error))
+    })
+    return request
+  }
+
+  /**
+   * Removes the request from in-flight requests.
+   * @param key
+   * @param request
+   */
+  private remove (key: string, request: InFlightRequest): void {
+    if (this.inFlight.get(key) === request) {
+      this.inFlight.delete(key)
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import type { FetchClientResponse } from './index'
+import type { StandardSchemaIssue } from './schema'
+
+export type FetchErrorDetails = {
+  /**
+   * The time elapsed in milliseconds since the request started.
+   */
+  elapsed: number
+  /**
+   * The request method.
+   */
+  method: string
+  /**
+   * The request URL.
+   */
+  url: string
+}
+
+/**
+ * The base class of errors thrown by the client.
+ */
+export class FetchError extends Error {
+  /**
+   * The time elapsed in milliseconds since the request started.
+   */
+  public elapsed: number
+  /**
+   * The request method.
+   */
+  public method: string
+  /**
+   * The request URL.
+   */
+  public url: string
+
+  constructor (message: string, details?: Partial<FetchErrorDetails>, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = 'FetchError'
+    this.elapsed = details?.elapsed ?? 0
+    this.method = details?.method ?? ''
+    this.url = details?.url ?? ''
+  }
+}
+
+/**
+ * Error thrown when the request is aborted by its signal.
+ */
+export class FetchAbortError extends FetchError {
+  /**
+   * The reason of the abort.
+   */
+  public reason: unknown
+
+  constructor (message: string, reason: unknown, details?: Partial<FetchErrorDetails>) {
+    super(message, details, { cause: reason })
+    this.name = 'FetchAbortError'
+    this.reason = reason
+  }
+}
+
+/**
+ * Error thrown when the request cannot be sent or the response cannot be received.
+ */
+export class FetchNetworkError extends FetchError {
+  constructor (message: string, cause: unknown, details?: Partial<FetchErrorDetails>) {
+    super(message, details, { cause })
+    this.name = 'FetchNetworkError'
+  }
+}
+
+/**
+ * Error thrown when the response body cannot be parsed.
+ */
+export class FetchParseError extends FetchError {
+  /**
+   * The response status code.
+   */
+  public status: number
+  /**
+   * The raw response body.
+   */
+  public text: string
+
+  constructor (message: string, text: string, status: number, cause: unknown, details?: Partial<FetchErrorDetails>) {
+    super(message, details, { cause })
+    this.name = 'FetchParseError'
+    this.status = status
+    this.text = text
+  }
+}
+
+/**
+ * Error thrown when the response status is not valid (see validateStatus option).
+ */
+export class FetchResponseError extends FetchError {
+  public response: FetchClientResponse
+
+  constructor (message: string, response: FetchClientResponse, details?: Partial<FetchErrorDetails>) {
+    super(message, { url: response.original?.url, ...details })
+    this.name = 'FetchResponseError'
+    this.response = response
+  }
+}
+
+/**
+ * Error thrown when the request takes too long.
+ */
+export class FetchTimeoutError extends FetchError {
+  /**
+   * The timeout in milliseconds.
+   */
+  public timeout: number
+
+  constructor (message: string, details: FetchErrorDetails & { timeout: number }) {
+    super(message, details)
+    this.name = 'FetchTimeoutError'
+    this.timeout = details.timeout
+  }
+}
+
+/**
+ * Error thrown when the response body is not valid according to the schema.
+ */
+export class FetchValidationError extends FetchError {
+  /**
+   * The validation issues.
+   */
+  public issues: ReadonlyArray<StandardSchemaIssue>
+  public response: FetchClientResponse
+
+  constructor (message: string, issues: ReadonlyArray<StandardSchemaIssue>, response: FetchClientResponse, details?: Partial<FetchErrorDetails>) {
+    super(message, { url: response.original?.url, ...details })
+    this.name = 'FetchValidationError'
+    this.issues = issues
+    this.response = response
+  }
+}
+
+/**
+ * Checks if the error was thrown by the client.
+ * @param error
+ */
+export function isFetchError (error: unknown): error is FetchError {
+  return error instanceof FetchError
+}
+
+/**
+ * Checks if the error is a FetchAbortError.
+ * @param error
+ */
+export function isFetchAbortError (error: unknown): error is FetchAbortError {
+  return error instanceof FetchAbortError
+}
+
+/**
+ * Checks if the error is a FetchNetworkError.
+ * @param error
+ */
+export function isFetchNetworkError (error: unknown): error is FetchNetworkError {
+  return error instanceof FetchNetworkError
+}
+
+/**
+ * Checks if the error is a FetchParseError.
+ * @param error
+ */
+export function isFetchParseError (error: unknown): error is FetchParseError {
+  return error instanceof FetchParseError
+}
+
+/**
+ * Checks if the error is a FetchResponseError.
+ * @param error
+ */
+export function isFetchResponseError (error: unknown): error is FetchResponseError {
+  return error instanceof FetchResponseError
+}
+
+/**
+ * Checks if the error is a FetchTimeoutError.
+ * @param error
+ */
+export function isFetchTimeoutError (error: unknown): error is FetchTimeoutError {
+  return error instanceof FetchTimeoutError
+}
+
+/**
+ * Checks if the error is a FetchValidationError.
+ * @param error
+ */
+export function isFetchValidationError (error: unknown): error is FetchValidationError {
+  return error instanceof FetchValidationError
+}
@@ -0,0 +1,319 @@
+import { getContentLength } from './progress'
+import {
+  getRequestAttributes,
+  injectTraceContext,
+  SPAN_KIND_CLIENT,
+  SPAN_STATUS_ERROR,
+  Tracer,
+  TraceSpan
+} from './tracing'
+
+/**
+ * The times of a request, in milliseconds from performance.now().
+ */
+export type FetchEventTimings = {
+  /**
+   * The time when the response body was read.
+   */
+  body?: number
+  /**
+   * The time when the request failed.
+   */
+  error?: number
+  /**
+   * The time when the response headers were received.
+   */
+  headers?: number
+  /**
+   * The time when the request was sent.
+   */
+  start: number
+}
+
+type FetchEventBase = {
+  /**
+   * The number of the attempt (starts at 1).
+   */
+  attempt: number
+  /**
+   * The identifier of the request, shared by the events of a request.
+   */
+  id: number
+  /**
+   * The request method.
+   */
+  method: string
+  /**
+   * The times of the request.
+   */
+  timings: FetchEventTimings
+  /**
+   * The request URL.
+   */
+  url: string
+}
+
+export type FetchRequestStartEvent = FetchEventBase & {
+  /**
+   * The size of the request body in bytes (undefined if unknown).
+   */
+  size?: number
+}
+
+export type FetchResponseHeadersEvent = FetchEventBase & {
+  /**
+   * The time in milliseconds to receive the response headers.
+   */
+  duration: number
+  /**
+   * The size of the response body from the content-length header (undefined if unknown).
+   */
+  size?: number
+  /**
+   * The response status.
+   */
+  status: number
+}
+
+export type FetchResponseBodyEvent = FetchEventBase & {
+  /**
+   * The time in milliseconds to receive the response headers and read the body.
+   */
+  duration: number
+  /**
+   * The number of bytes read (undefined for streaming response types, read after the event).
+   */
+  size?: number
+  /**
+   * The response status.
+   */
+  status: number
+}
+
+export type FetchRequestErrorEvent = FetchEventBase & {
+  /**
+   * The time in milliseconds until the request failed.
+   */
+  duration: number
+  /**
+   * The error of the request.
+   */
+  error: unknown
+  /**
+   * The response status (undefined if no response was received).
+   */
+  status?: number
+}
+
+export type FetchEventMap = {
+  'request:error': FetchRequestErrorEvent
+  'request:start': FetchRequestStartEvent
+  'response:body': FetchResponseBodyEvent
+  'response:headers': FetchResponseHeadersEvent
+}
+
+export type FetchEventName = keyof FetchEventMap
+
+export type FetchEventListener<N extends FetchEventName> = (event: FetchEventMap[N]) => void
+
+/**
+ * Calls the listeners of events, and the listeners of the parent emitter.
+ */
+export class FetchEventEmitter {
+  private readonly listeners: { [N in FetchEventName]?: FetchEventListener<N>[] } = {}
+  private readonly parent?: FetchEventEmitter
+
+  constructor (parent?: FetchEventEmitter) {
+    this.parent = parent
+  }
+
+  /**
+   * Calls the listeners of an event.
+   * Errors thrown by listeners are ignored, so they cannot break requests.
+   * @param name
+   * @param event
+   */
+  emit<N extends FetchEventName> (name: N, event: FetchEventMap[N]): void {
+    const listeners = this.listeners[name] as FetchEventListener<N>[] | undefined
+
+    listeners?.slice().forEach((listener) => {
+      try {
+        listener(event)
+      } catch {
+        // Ignore errors of listeners.
+      }
+    })
+    this.parent?.emit(name, event)
+  }
+
+  /**
+   * Checks if an event has listeners.
+   * @param name
+   */
+  has (name: FetchEventName): boolean {
+    return (this.listeners[name]?.length ?? 0) > 0 || (this.parent?.has(name) ?? false)
+  }
+
+  /**
+   * Adds a listener of an event, and returns a function to remove it.
+   * @param name
+   * @param listener
+   */
+  on<N extends FetchEventName> (name: N, listener: FetchEventListener<N>): () => void {
+    const listeners = (this.listeners[name] ?? []) as FetchEventListener<N>[]
+    listeners.push(listener)
+    this.listeners[name] = listeners as typeof this.listeners[N]
+
+    return () => {
+      const index = listeners.indexOf(listener)
+
+      if (index !== -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }
+}
+
+/**
+ * Returns the size of a request body in bytes, or undefined if unknown (ex: FormData, stream).
+ * @param body
+ */
+export function getBodySize (body: BodyInit | null | undefined): number | undefined {
+  if (typeof body === 'string' || body instanceof URLSearchParams) {
+    return new TextEncoder().encode(body.toString()).byteLength
+  }
+  if (body instanceof Blob) {
+    return body.size
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength
+  }
+  return undefined
+}
+
+let lastId = 0
+
+/**
+ * Emits the events and records the span of a single attempt of a request.
+ */
+export class RequestObserver {
+  private readonly attempt: number
+  private readonly emitter: FetchEventEmitter
+  private readonly id = ++lastId
+  private readonly method: string
+  private span?: TraceSpan
+  private status?: number
+  private readonly timings: FetchEventTimings
+  private readonly url: string
+
+  constructor (emitter: FetchEventEmitter, tracer: Tracer | undefined, request: { attempt: number, method: string, url: string }) {
+    this.attempt = request.attempt
+    this.emitter = emitter
+    this.method = request.method
+    this.timings = { start: performance.now() }
+    this.url = request.url
+    this.span = tracer?.startSpan(request.method, {
+      attributes: getRequestAttributes(request.method, request.url, request.attempt),
+      kind: SPAN_KIND_CLIENT
+    })
+  }
+
+  /**
+   * Tells if the size of the response body must be measured.
+   */
+  get measuresBody (): boolean {
+    return this.emitter.has('response:body')
+  }
+
+  /**
+   * Returns the properties shared by events.
+   */
+  private base (): FetchEventBase {
+    return {
+      attempt: this.attempt,
+      id: this.id,
+      method: this.method,
+      timings: { ...this.timings },
+      url: this.url
+    }
+  }
+
+  /**
+   * Called when the response body has been read.
+   * @param size
+   */
+  body (size: number | undefined): void {
+    this.timings.body = performance.now()
+    this.emitter.emit('response:body', {
+      ...this.base(),
+      duration: this.timings.body - this.timings.start,
+      size,
+      status: this.status ?? 0
+    })
+    this.span?.end()
+    this.span = undefined
+  }
+
+  /**
+   * Called when the request failed.
+   * @param error
+   */
+  error (error: unknown): void {
+    this.timings.error = performance.now()
+    this.emitter.emit('request:error', {
+      ...this.base(),
+      duration: this.timings.error - this.timings.start,
+      error,
+      status: this.status
+    })
+
+    if (this.span) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.span.recordException(error instanceof Error ? error : message)
+      this.span.setAttribute('error.type', error instanceof Error ? error.name : 'Error')
+      this.span.setStatus({ code: SPAN_STATUS_ERROR, message })
+      this.span.end()
+      this.span = undefined
+    }
+  }
+
+  /**
+   * Called when the response headers have been received.
+   * @param response
+   */
+  headers (response: Response): void {
+    this.status = response.status
+    this.timings.headers = performance.now()
+    this.emitter.emit('response:headers', {
+      ...this.base(),
+      duration: this.timings.headers - this.timings.start,
+      size: getContentLength(response.headers),
+      status: response.status
+    })
+
+    if (this.span) {
+      this.span.setAttribute('http.response.status_code', response.status)
+
+      if (response.status >= 400) {
+        this.span.setAttribute('error.type', String(response.status))
+        this.span.setStatus({ code: SPAN_STATUS_ERROR })
+      }
+    }
+  }
+
+  /**
+   * Returns the request headers with the trace context of the span.
+   * @param headers
+   */
+  inject (headers: HeadersInit | undefined): HeadersInit | undefined {
+    return this.span ? injectTraceContext(headers, this.span) : headers
+  }
+
+  /**
+   * Called when the request is sent.
+   * @param body
+   */
+  start (body: BodyInit | null | undefined): void {
+    this.emitter.emit('request:start', { ...this.base(), size: getBodySize(body) })
+  }
+}
@@ -0,0 +1,422 @@
+import { getSetCookies } from './cookies'
+import type { FetchAdapter } from './mock'
+
+export type HarNameValue = {
+  name: string
+  value: string
+}
+
+export type HarRequest = {
+  bodySize: number
+  cookies: HarNameValue[]
+  headers: HarNameValue[]
+  headersSize: number
+  httpVersion: string
+  method: string
+  postData?: {
+    mimeType: string
+    text: string
+  }
+  queryString: HarNameValue[]
+  url: string
+}
+
+export type HarResponse = {
+  bodySize: number
+  content: {
+    encoding?: string
+    mimeType: string
+    size: number
+    text?: string
+  }
+  cookies: HarNameValue[]
+  headers: HarNameValue[]
+  headersSize: number
+  httpVersion: string
+  redirectURL: string
+  status: number
+  statusText: string
+}
+
+export type HarEntry = {
+  cache: Record<string, never>
+  request: HarRequest
+  response: HarResponse
+  startedDateTime: string
+  time: number
+  timings: {
+    receive: number
+    send: number
+    wait: number
+  }
+}
+
+/**
+ * An HTTP Archive (HAR 1.2).
+ * @see http://www.softwareishard.com/blog/har-12-spec/
+ */
+export type Har = {
+  log: {
+    creator: {
+      name: string
+      version: string
+    }
+    entries: HarEntry[]
+    version: string
+  }
+}
+
+/**
+ * The mode of the recorder:
+ * - "record": execute all requests and record them
+ * - "record-missing": replay recorded requests, execute and record the others
+ * - "replay": replay recorded requests, throw an error for the others
+ */
+export type HarMode = 'record' | 'record-missing' | 'replay'
+
+export type HarMatchOptions = {
+  /**
+   * Compare request bodies (default: true).
+   */
+  body?: boolean
+  /**
+   * The names of request headers to compare (default: none).
+   */
+  headers?: string[]
+  /**
+   * Compare query strings (default: true).
+   */
+  query?: boolean
+}
+
+export type HarRedactOptions = {
+  /**
+   * The names of headers to redact (default: authorization, cookie, proxy-authorization, set-cookie).
+   */
+  headers?: string[]
+  /**
+   * The names of query params to redact (default: none).
+   */
+  queryParams?: string[]
+  /**
+   * The value replacing secrets (default: "[REDACTED]").
+   */
+  replacement?: string
+}
+
+export type HarRecorderOptions = {
+  /**
+   * The function executing requests that are not replayed (default: global fetch).
+   */
+  fetch?: FetchAdapter
+  /**
+   * The recorded traffic to replay.
+   */
+  har?: Har | HarEntry[]
+  /**
+   * The rules to find the recorded entry of a request,
+   * or a function returning true if the entry matches the request.
+   */
+  match?: HarMatchOptions | ((request: HarRequest, entry: HarEntry) => boolean)
+  /**
+   * The mode of the recorder.
+   */
+  mode: HarMode
+  /**
+   * The secrets to remove from recorded entries,
+   * or a function returning the entry to record.
+   */
+  redact?: HarRedactOptions | ((entry: HarEntry) => HarEntry)
+}
+
+const defaultRedactedHeaders = ['authorization', 'cookie', 'proxy-authorization', 'set-cookie']
+
+/**
+ * Returns headers as a list of name/value.
+ * @param headers
+ */
+function toNameValues (headers: Headers): HarNameValue[] {
+  const list: HarNameValue[] = []
+  headers.forEach((value, name) => {
+    list.push({ name, value })
+  })
+  // Headers merge Set-Cookie values.
+  if (headers.has('set-cookie')) {
+    return [
+      ...list.filter((h) => h.name !== 'set-cookie'),
+      ...getSetCookies(headers).map((value) => ({ name: 'set-cookie', value }))
+    ]
+  }
+  return list
+}
+
+/**
+ * Checks if a content type is textual.
+ * @param mimeType
+ */
+function isText (mimeType: string): boolean {
+  return mimeType === '' || /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b/.test(mimeType)
+}
+
+/**
+ * Returns the base64 of bytes.
+ * @param bytes
+ */
+function toBase64 (bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+/**
+ * Returns the bytes of a base64 string.
+ * @param base64
+ */
+function fromBase64 (base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Records requests and responses to HAR entries, and replays them without network.
+ * The HAR can be saved with JSON.stringify(recorder), after waiting for recorder.flush().
+ */
+export class HarRecorder {
+  private readonly entries: HarEntry[]
+  private readonly options: HarRecorderOptions
+  private readonly pending = new Set<Promise<void>>()
+  private readonly used = new Set<HarEntry>()
+
+  constructor (options: HarRecorderOptions) {
+    const { har } = options
+    this.options = options
+    this.entries = options.mode === 'record'
+      ? []
+      : [...(Array.isArray(har) ? har : har?.log.entries ?? [])]
+  }
+
+  /**
+   * The adapter to pass to the client (fetch option).
+   * @param url
+   * @param init
+   */
+  fetch: FetchAdapter = async (url, init = {}) => {
+    const startTime = Date.now()
+    let body = init.body
+
+    // Keep a copy of the stream body to execute the request.
+    if (body instanceof ReadableStream) {
+      const [copy, original] = body.tee()
+      body = copy
+      init = { ...init, body: original }
+    }
+
+    const request = await this.createRequest(url, init, body)
+
+    if (this.options.mode !== 'record') {
+      const entry = this.find(request)
+
+      if (entry) {
+        this.used.add(entry)
+        init.signal?.throwIfAborted()
+        return this.createResponse(entry)
+      }
+      if (this.options.mode === 'replay') {
+        throw new Error(`No recorded response for ${request.method} ${request.url}`)
+      }
+    }
+
+    const response = await (this.options.fetch ?? fetch)(url, init)
+    // Record the entry when the body is read, without waiting for it (ex: streams that never end).
+    const recording = this.record(request, response.clone(), startTime, Date.now() - startTime)
+      .finally(() => this.pending.delete(recording))
+    this.pending.add(recording)
+    return response
+  }
+
+  /**
+   * Waits until the responses being recorded are read (ex: before saving the HAR).
+   */
+  async flush (): Promise<void> {
+    await Promise.all(this.pending)
+  }
+
+  /**
+   * Returns the recorded traffic (HAR 1.2).
+   */
+  toJSON (): Har {
+    return {
+      log: {
+        creator: { name: '@jalik/fetch-client', version: '1' },
+        entries: this.entries,
+        version: '1.2'
+      }
+    }
+  }
+
+  /**
+   * Returns the HAR request of a Fetch request (with redacted query params).
+   * @param url
+   * @param init
+   * @param body
+   */
+  private async createRequest (url: string, init: RequestInit, body: BodyInit | null | undefined): Promise<HarRequest> {
+    const headers = new Headers(init.headers)
+    const text = body != null ? await new Response(body).text() : undefined
+    const parsedUrl = new URL(url, 'http://localhost')
+    const { redact } = this.options
+
+    if (typeof redact === 'object') {
+      redact.queryParams?.forEach((name) => {
+        if (parsedUrl.searchParams.has(name)) {
+          parsedUrl.searchParams.set(name, redact.replacement ?? '[REDACTED]')
+        }
+      })
+    }
+    const queryString: HarNameValue[] = []
+    parsedUrl.searchParams.forEach((value, name) => {
+      queryString.push({ name, value })
+    })
+
+    return {
+      bodySize: text != null ? new TextEncoder().encode(text).byteLength : 0,
+      cookies: [],
+      headers: toNameValues(headers),
+      headersSize: -1,
+      httpVersion: 'HTTP/1.1',
+      method: init.method?.toUpperCase() ?? 'GET',
+      ...(text != null && {
+        postData: {
+          mimeType: headers.get('content-type') ?? '',
+          text
+        }
+      }),
+      queryString,
+      url: parsedUrl.href
+    }
+  }
+
+  /**
+   * Returns the Fetch response of a HAR entry.
+   * @param entry
+   */
+  private createResponse (entry: HarEntry): Response {
+    const { content, headers, status, statusText } = entry.response
+    const responseHeaders = new Headers()
+    headers.forEach(({ name, value }) => responseHeaders.append(name, value))
+
+    let body: BodyInit | null = null
+
+    // Null body status cannot have a body.
+    if (content.text != null && ![101, 204, 205, 304].includes(status)) {
+      body = content.encoding === 'base64' ? fromBase64(content.text) : content.text
+    }
+    const response = new Response(body, { headers: responseHeaders, status, statusText })
+    Object.defineProperty(response, 'url', { value: entry.request.url })
+    return response
+  }
+
+  /**
+   * Returns the entry matching a request, not used first.
+   * @param request
+   */
+  private find (request: HarRequest): HarEntry | undefined {
+    const { match } = this.options
+    const matches = this.entries.filter((entry) => (
+      typeof match === 'function' ? match(request, entry) : this.matches(request, entry, match)
+    ))
+    return matches.find((entry) => !this.used.has(entry)) ?? matches[matches.length - 1]
+  }
+
+  /**
+   * Checks if an entry matches a request.
+   * @param request
+   * @param entry
+   * @param options
+   */
+  private matches (request: HarRequest, entry: HarEntry, options?: HarMatchOptions): boolean {
+    const { body = true, headers = [], query = true } = options ?? {}
+    const [requestPath, requestQuery = ''] = request.url.split('?')
+    const [entryPath, entryQuery = ''] = entry.request.url.split('?')
+    const getHeader = (list: HarNameValue[], name: string) => (
+      list.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value
+    )
+
+    return request.method === entry.request.method &&
+      requestPath === entryPath &&
+      (!query || requestQuery === entryQuery) &&
+      (!body || (request.postData?.text ?? '') === (entry.request.postData?.text ?? '')) &&
+      headers.every((name) => getHeader(request.headers, name) === getHeader(entry.request.headers, name))
+  }
+
+  /**
+   * Reads the body of a response and records the entry,
+   * the entry is not recorded if the body cannot be read.
+   * @param request
+   * @param response
+   * @param startTime
+   * @param wait
+   */
+  private async record (request: HarRequest, response: Response, startTime: number, wait: number): Promise<void> {
+    let bytes: Uint8Array
+
+    try {
+      bytes = new Uint8Array(await response.arrayBuffer())
+    } catch {
+      return
+    }
+    const mimeType = response.headers.get('content-type') ?? ''
+    const text = isText(mimeType)
+    const time = Date.now() - startTime
+
+    const entry = this.redact({
+      cache: {},
+      request,
+      response: {
+        bodySize: bytes.byteLength,
+        content: {
+          ...(!text && { encoding: 'base64' }),
+          mimeType,
+          size: bytes.byteLength,
+          text: text ? new TextDecoder().decode(bytes) : toBase64(bytes)
+        },
+        cookies: [],
+        headers: toNameValues(response.headers),
+        headersSize: -1,
+        httpVersion: 'HTTP/1.1',
+        redirectURL: response.headers.get('location') ?? '',
+        status: response.status,
+        statusText: response.statusText
+      },
+      startedDateTime: new Date(startTime).toISOString(),
+      time,
+      timings: { receive: time - wait, send: 0, wait }
+    })
+    this.entries.push(entry)
+    this.used.add(entry)
+  }
+
+  /**
+   * Removes secrets from an entry.
+   * @param entry
+   */
+  private redact (entry: HarEntry): HarEntry {
+    const { redact } = this.options
+
+    if (typeof redact === 'function') {
+      return redact(entry)
+    }
+    const names = (redact?.headers ?? defaultRedactedHeaders).map((name) => name.toLowerCase())
+    const replacement = redact?.replacement ?? '[REDACTED]'
+    const redactHeaders = (headers: HarNameValue[]) => headers.map((header) => (
+      names.includes(header.name.toLowerCase()) ? { ...header, value: replacement } : header
+    ))
+
+    return {
+      ...entry,
+      request: { ...entry.request, headers: redactHeaders(entry.request.headers) },
+      response: { ...entry.response, headers: redactHeaders(entry.response.headers) }
+    }
+  }
+}
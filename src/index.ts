@@ -1,8 +1,176 @@
+import { AuthManager, AuthOptions } from './auth'
+import { CacheOptions, FetchCacheMode, HttpCache } from './cache'
+import { mergeConfig } from './config'
+import { CookieJar, fetchWithCookies } from './cookies'
+import { DedupeOptions, RequestDeduplicator } from './dedupe'
+import { FetchEventEmitter, FetchEventListener, FetchEventName, RequestObserver } from './events'
+import {
+  FetchAbortError,
+  FetchError,
+  FetchErrorDetails,
+  FetchNetworkError,
+  FetchParseError,
+  FetchResponseError,
+  FetchTimeoutError,
+  FetchValidationError
+} from './errors'
+import { LoggerOptions, RequestLogger } from './logger'
+import { FetchContext, FetchMiddleware, runMiddlewares } from './middleware'
+import { getResponseType, ResponseTypeMap } from './mime'
+import { FetchAdapter } from './mock'
+import {
+  FetchParams,
+  ParamsSerializer,
+  ParamsSerializerOptions,
+  serializeParams,
+  splitUrl
+} from './params'
+import { paginatePages, PaginationContext, PaginationOptions } from './pagination'
+import { fillPathParams, PathParamNames, PathParams, PathParamValue } from './path'
+import { FetchProgressCallback, getContentLength, trackStream, trackUpload } from './progress'
+import { QueueOptions, RequestQueue } from './queue'
+import { onBodyEnd, parseRecords } from './records'
+import {
+  computeRetryDelay,
+  parseRetryAfter,
+  resolveRetryOptions,
+  RetryOptions,
+  sleep
+} from './retry'
+import { formatIssues, SchemaOutput, StandardSchemaV1, validateSchema } from './schema'
+import {
+  BodySerializer,
+  BodySerializerMap,
+  containsBlob,
+  getSerializer,
+  isBodyInit
+} from './serializers'
+import { SseEvent, SseOptions, streamEvents } from './sse'
+import { createTimeout } from './timeout'
+import { Tracer } from './tracing'
+
+export type {
+  Api,
+  ApiDefinition,
+  EndpointArgs,
+  EndpointDefinition,
+  EndpointFunction,
+  EndpointResponse,
+  HttpMethod
+} from './api'
+export { createApi, typed } from './api'
+export type { AuthOptions, AuthToken } from './auth'
+export { AuthManager, basicAuth } from './auth'
+export type { CacheEntry, CacheOptions, CacheStore, FetchCacheMode, StorageLike } from './cache'
+export { MemoryCacheStore, parseCacheControl, StorageCacheStore } from './cache'
+export { mergeConfig, mergeHeaders } from './config'
+export type { Cookie } from './cookies'
+export { CookieJar, parseSetCookie } from './cookies'
+export type { DedupeOptions } from './dedupe'
+export { getDedupeKey } from './dedupe'
+export * from './errors'
+export type {
+  FetchEventListener,
+  FetchEventMap,
+  FetchEventName,
+  FetchEventTimings,
+  FetchRequestErrorEvent,
+  FetchRequestStartEvent,
+  FetchResponseBodyEvent,
+  FetchResponseHeadersEvent
+} from './events'
+export { FetchEventEmitter } from './events'
+export type {
+  Har,
+  HarEntry,
+  HarMatchOptions,
+  HarMode,
+  HarNameValue,
+  HarRecorderOptions,
+  HarRedactOptions,
+  HarRequest,
+  HarResponse
+} from './har'
+export { HarRecorder } from './har'
+export type { LoggerOptions, LogLevel } from './logger'
+export type { FetchContext, FetchMiddleware } from './middleware'
+export type { ResponseTypeMap } from './mime'
+export { defaultResponseTypes, findMediaType, getMediaType, getResponseType } from './mime'
+export type {
+  FetchAdapter,
+  MockAdapterOptions,
+  MockRequest,
+  MockResponse,
+  MockResponseInit,
+  MockRouteOptions
+} from './mock'
+export { MockAdapter } from './mock'
+export type {
+  OpenApiArgs,
+  OpenApiClient,
+  OpenApiDocument,
+  OpenApiErrorResponse,
+  OpenApiMethod,
+  OpenApiOperation,
+  OpenApiPaths,
+  OpenApiRequestOptions,
+  OpenApiResponse,
+  OpenApiSchema
+} from './openapi'
+export { createOpenApiClient, generateOpenApiTypes } from './openapi'
+export type {
+  PaginationContext,
+  PaginationOptions,
+  PaginationRequest,
+  PaginationStrategy
+} from './pagination'
+export {
+  cursorPagination,
+  linkPagination,
+  offsetPagination,
+  pagePagination,
+  parseLinkHeader
+} from './pagination'
+export type { FetchParams, ParamsArrayFormat, ParamsSerializer, ParamsSerializerOptions } from './params'
+export { serializeParams } from './params'
+export type { PathParamNames, PathParams, PathParamValue } from './path'
+export { fillPathParams } from './path'
+export type { FetchProgressCallback, FetchProgressEvent } from './progress'
+export type { QueueOptions, RateLimit } from './queue'
+export { RequestQueue } from './queue'
+export type { RecordFormat, RecordStreamOptions } from './records'
+export { parseRecords } from './records'
+export type { ResolvedRetryOptions, RetryContext, RetryOptions } from './retry'
+export { defaultRetryOptions, parseRetryAfter } from './retry'
+export type {
+  SchemaOutput,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+  StandardSchemaV1
+} from './schema'
+export type { BodySerializer, BodySerializerMap } from './serializers'
+export {
+  defaultSerializers,
+  getSerializer,
+  jsonSerializer,
+  multipartSerializer,
+  toFormData,
+  urlEncodedSerializer
+} from './serializers'
+export type { SseEvent, SseOptions } from './sse'
+export { SseParser } from './sse'
+export type { TraceAttributes, Tracer, TraceSpan, TraceSpanContext } from './tracing'
+export { formatTraceparent, injectTraceContext } from './tracing'
+
 export type FetchClientResponse<T = any> = {
   /**
    * Response body.
    */
   body: T
+  /**
+   * The values of Set-Cookie headers (not merged, unlike headers).
+   */
+  cookies?: string[]
   /**
    * Response headers.
    */
@@ -29,38 +197,131 @@ export type FetchClientResponse<T = any> = {
   type: ResponseType
 }
 
-export class FetchResponseError extends Error {
-  public response: FetchClientResponse
-
-  constructor (message: string, response: FetchClientResponse) {
-    super(message)
-    this.response = response
-  }
-}
-
 export type FetchResponseType =
   'arrayBuffer'
+  | 'auto'
   | 'blob'
   | 'formData'
   | 'json'
+  | 'json-seq'
+  | 'ndjson'
   | 'stream'
   | 'text'
   | undefined
 
 export type FetchOptions = RequestInit & {
+  /**
+   * Pass false to not add credentials to the request (used only if auth is enabled in client options).
+   */
+  auth?: boolean
+  /**
+   * The cache mode of the request (used only if cache is enabled in client options).
+   */
+  cacheMode?: FetchCacheMode
+  /**
+   * Pass false to not add the params of the client to the URL (ex: a URL already containing all params).
+   */
+  clientParams?: boolean
+  /**
+   * Pass false to not share the request with identical requests in progress
+   * (used only if dedupe is enabled in client options).
+   */
+  dedupe?: boolean
+  /**
+   * The schema used to validate the body of error responses.
+   */
+  errorSchema?: StandardSchemaV1
+  /**
+   * Function called when a chunk of the response body is received.
+   */
+  onDownloadProgress?: FetchProgressCallback
+  /**
+   * The behavior when a record of "ndjson" or "json-seq" responses cannot be parsed (default: "throw"):
+   * - "skip": ignore the record
+   * - "throw": throw a FetchParseError
+   */
+  onParseError?: 'skip' | 'throw'
+  /**
+   * Function called when a chunk of the request body is sent.
+   */
+  onUploadProgress?: FetchProgressCallback
+  /**
+   * The query params to add to the URL.
+   * Merged with client params.
+   */
+  params?: FetchParams
+  /**
+   * The function or options used to serialize params.
+   */
+  paramsSerializer?: ParamsSerializer | ParamsSerializerOptions
+  /**
+   * The values of ":name" and "{name}" placeholders in the URL.
+   */
+  pathParams?: Record<string, PathParamValue>
+  /**
+   * The priority of the request in the queue (default: 0, highest first).
+   */
+  queuePriority?: number
   /**
    * The type of response to expect.
+   * Pass "auto" to use the type of the response content type.
    * Pass undefined to ignore response body.
    */
   responseType?: FetchResponseType
+  /**
+   * The retry policy of the request.
+   * Pass false to disable retry for this request.
+   */
+  retry?: RetryOptions | boolean
+  /**
+   * The schema used to validate the response body (ex: zod, valibot, arktype).
+   */
+  schema?: StandardSchemaV1
+  /**
+   * The maximum time in milliseconds to wait for the response headers (per attempt).
+   */
+  timeout?: number
+  /**
+   * The maximum time in milliseconds of the request, including retries and body parsing.
+   */
+  totalTimeout?: number
+  /**
+   * Returns true if the response status is valid, otherwise a FetchResponseError is thrown (default: 2xx).
+   * @param status
+   */
+  validateStatus?: (status: number) => boolean
+}
+
+/**
+ * The arguments following the URL of a request,
+ * options are required when the URL contains path params.
+ */
+export type FetchArgs<U extends string, O extends FetchOptions = FetchOptions> = string extends U
+  ? [options?: O]
+  : [PathParamNames<U>] extends [never]
+      ? [options?: O]
+      : [options: O & { pathParams: PathParams<U> }]
+
+export type PaginateOptions<R = unknown, T = unknown> = FetchOptions & {
+  /**
+   * The pagination options.
+   */
+  pagination?: PaginationOptions<R, T>
 }
 
+export type SseRequestOptions = FetchOptions & SseOptions
+
 export type FetchClientConfig = {
   /**
    * Function called after each request.
    * @param options
    */
   afterEach?: (url: string, response: FetchClientResponse) => Promise<FetchClientResponse>,
+  /**
+   * The authentication of requests (token provider and refresh).
+   * Pass an AuthManager to set the token after login.
+   */
+  auth?: AuthOptions | AuthManager
   /**
    * The base URL to use when executing a relative request.
    */
@@ -70,19 +331,89 @@ export type FetchClientConfig = {
    * @param options
    */
   beforeEach?: (url: string, options: RequestInit) => Promise<RequestInit>,
+  /**
+   * Enable caching of GET responses.
+   * Pass true to use an in-memory cache.
+   */
+  cache?: CacheOptions | boolean
+  /**
+   * The cookie jar storing response cookies and sending them with requests (useful in NodeJS).
+   * Pass true to use a new jar.
+   */
+  cookieJar?: CookieJar | boolean
+  /**
+   * Enable sharing a single network request between concurrent identical requests.
+   * Pass true to use default options.
+   */
+  dedupe?: DedupeOptions | boolean
+  /**
+   * The function executing requests (default: global fetch).
+   * Pass the fetch of a MockAdapter to respond without network.
+   */
+  fetch?: FetchAdapter
   /**
    * Client headers.
    */
   headers: Record<string, string>
+  /**
+   * Enable logging of requests sent to the network, with redaction of sensitive headers and fields.
+   * Pass true to use default options.
+   */
+  logger?: LoggerOptions | boolean
+  /**
+   * Functions called for each request (executed in order, around the request).
+   */
+  middlewares: FetchMiddleware[]
   /**
    * Fetch options.
    */
   options: RequestInit
+  /**
+   * The default query params to add to the URL of all requests.
+   */
+  params?: FetchParams
+  /**
+   * The function or options used to serialize params.
+   */
+  paramsSerializer?: ParamsSerializer | ParamsSerializerOptions
+  /**
+   * The queue limiting the concurrency and the rate of requests.
+   * Pass a RequestQueue to share it between clients or to read its size.
+   */
+  queue?: QueueOptions | RequestQueue
   /**
    * The type of response to expect.
+   * Pass "auto" to use the type of the response content type.
    * Pass undefined to ignore response body.
    */
   responseType?: FetchResponseType
+  /**
+   * The response types of content types used by the response type "auto" (merged with default types).
+   */
+  responseTypes?: ResponseTypeMap
+  /**
+   * The retry policy of requests.
+   * Pass true to use the default policy.
+   */
+  retry?: RetryOptions | boolean
+  /**
+   * The serializers of request bodies and the deserializers of responses (used by the response type "auto"),
+   * by content type (merged with default serializers).
+   */
+  serializers?: BodySerializerMap
+  /**
+   * The maximum time in milliseconds to wait for the response headers (per attempt).
+   */
+  timeout?: number
+  /**
+   * The maximum time in milliseconds of requests, including retries and body parsing.
+   */
+  totalTimeout?: number
+  /**
+   * The tracer creating a span for each attempt of requests (compatible with OpenTelemetry tracers).
+   * The trace context is sent in traceparent and tracestate headers.
+   */
+  tracer?: Tracer
   /**
    * Allow transforming the response error.
    * @param error
@@ -100,10 +431,30 @@ export type FetchClientConfig = {
    * @param response
    */
   transformResponse: Array<(body: any, response: Response) => any>
+  /**
+   * Returns true if the response status is valid, otherwise a FetchResponseError is thrown (default: 2xx).
+   * @param status
+   */
+  validateStatus?: (status: number) => boolean
+}
+
+/**
+ * Checks if the body of a response type is read after the response is returned.
+ * @param responseType
+ */
+function isStreamType (responseType: FetchResponseType): boolean {
+  return responseType === 'json-seq' || responseType === 'ndjson' || responseType === 'stream'
 }
 
 export class FetchClient {
+  private readonly auth?: AuthManager
+  private readonly cache?: HttpCache
   private readonly config: FetchClientConfig
+  private readonly cookieJar?: CookieJar
+  private readonly deduplicator?: RequestDeduplicator
+  private events = new FetchEventEmitter()
+  private readonly logger?: RequestLogger
+  private readonly queue?: RequestQueue
 
   constructor (config?: Partial<FetchClientConfig>) {
     this.config = {
@@ -114,10 +465,36 @@ export class FetchClient {
       headers: {
         ...config?.headers
       },
+      middlewares: [
+        ...config?.middlewares ?? []
+      ],
       options: {
         ...config?.options
       }
     }
+
+    if (this.config.auth) {
+      this.auth = this.config.auth instanceof AuthManager
+        ? this.config.auth
+        : new AuthManager(this.config.auth)
+    }
+    if (this.config.cache) {
+      this.cache = new HttpCache(this.config.cache === true ? undefined : this.config.cache)
+    }
+    if (this.config.cookieJar) {
+      this.cookieJar = this.config.cookieJar === true ? new CookieJar() : this.config.cookieJar
+    }
+    if (this.config.dedupe) {
+      this.deduplicator = new RequestDeduplicator(this.config.dedupe === true ? undefined : this.config.dedupe)
+    }
+    if (this.config.logger) {
+      this.logger = new RequestLogger(this.config.logger === true ? undefined : this.config.logger)
+    }
+    if (this.config.queue) {
+      this.queue = this.config.queue instanceof RequestQueue
+        ? this.config.queue
+        : new RequestQueue(this.config.queue)
+    }
   }
 
   /**
@@ -125,94 +502,389 @@ export class FetchClient {
    * @param url
    * @param options
    */
-  delete<R> (url: string, options?: FetchOptions): Promise<FetchClientResponse<R>> {
-    return this.fetch<R>(url, {
+  delete<R, U extends string = string, S extends StandardSchemaV1 | undefined = undefined> (url: U, ...[options]: FetchArgs<U, FetchOptions & { schema?: S }>): Promise<FetchClientResponse<SchemaOutput<S, R>>> {
+    return this.fetch<R, string, S>(url, {
       ...options,
       method: 'DELETE'
     })
   }
 
+  /**
+   * Returns a child client using the config of this client merged with config.
+   * The child shares the auth manager, the cookie jar and the queue of this client, unless they are replaced.
+   * The events of the child are also emitted to the listeners of this client.
+   * @param config
+   */
+  extend (config?: Partial<FetchClientConfig>): FetchClient {
+    const overrides = config ?? {}
+    const client = new FetchClient({
+      ...mergeConfig(this.config, overrides),
+      auth: 'auth' in overrides ? overrides.auth : this.auth,
+      cookieJar: 'cookieJar' in overrides ? overrides.cookieJar : this.cookieJar,
+      queue: 'queue' in overrides ? overrides.queue : this.queue
+    })
+    client.events = new FetchEventEmitter(this.events)
+    return client
+  }
+
   /**
    * Executes an HTTP request.
    * @param url
    * @param options
    */
-  async fetch<R = any> (url: string, options?: FetchOptions): Promise<FetchClientResponse<R>> {
+  async fetch<R = any, U extends string = string, S extends StandardSchemaV1 | undefined = undefined> (url: U, ...[options]: FetchArgs<U, FetchOptions & { schema?: S }>): Promise<FetchClientResponse<SchemaOutput<S, R>>> {
+    const startTime = Date.now()
+    const method = (options?.method ?? this.config.options.method ?? 'GET').toUpperCase()
+    const totalTimeout = options?.totalTimeout ?? this.config.totalTimeout
+    const parentSignal = options?.signal ?? this.config.options.signal
+    const deadline = totalTimeout ? createTimeout(totalTimeout, parentSignal) : undefined
+    let resp: FetchClientResponse<R>
+
+    try {
+      resp = await this.send<R>(url, {
+        ...options,
+        signal: deadline?.signal ?? parentSignal
+      }, method)
+    } catch (error) {
+      deadline?.dispose()
+
+      if (deadline?.timedOut && totalTimeout) {
+        throw new FetchTimeoutError(`Request timed out after ${totalTimeout}ms`, {
+          elapsed: Date.now() - startTime,
+          method,
+          timeout: totalTimeout,
+          url: this.resolveUrl(url, options)
+        })
+      }
+      // Errors thrown while waiting (queue, retry delay) are not converted by the request.
+      if (parentSignal?.aborted && !(error instanceof FetchError)) {
+        throw new FetchAbortError('Request aborted', parentSignal.reason, {
+          elapsed: Date.now() - startTime,
+          method,
+          url: this.resolveUrl(url, options)
+        })
+      }
+      throw error
+    }
+
+    // Keep the signal attached to the parent signal until the stream is read or cancelled.
+    if (deadline) {
+      deadline.clear()
+      resp.body = onBodyEnd(resp.body, deadline.dispose)
+    }
+
+    return resp as FetchClientResponse<SchemaOutput<S, R>>
+  }
+
+  /**
+   * Executes an HTTP request, and retries it if needed.
+   * @param url
+   * @param options
+   * @param method
+   */
+  private async send<R> (url: string, options: FetchOptions, method: string): Promise<FetchClientResponse<R>> {
+    const retry = resolveRetryOptions(this.config.retry, options.retry)
+    const { signal } = options
+    let attempt = 0
+
+    for (;;) {
+      attempt++
+      try {
+        return await this.execute<R>(url, options, attempt)
+      } catch (error) {
+        // Retry the request if possible.
+        if (retry && attempt < retry.attempts && !signal?.aborted &&
+          retry.methods.includes(method) &&
+          !(options.body instanceof ReadableStream) &&
+          (retry.shouldRetry
+            ? await retry.shouldRetry(error, attempt)
+            : this.isRetryable(error, retry.statusCodes))) {
+          let delay = computeRetryDelay(retry, attempt)
+
+          if (retry.respectRetryAfter && error instanceof FetchResponseError) {
+            const retryAfter = parseRetryAfter(error.response.headers['retry-after'])
+
+            if (retryAfter != null) {
+              if (retryAfter > retry.maxDelay) {
+                await this.validateError(error, options.errorSchema)
+                throw this.transformError(error)
+              }
+              delay = retryAfter
+            }
+          }
+
+          if (retry.onRetry) {
+            await retry.onRetry({ attempt, delay, error, method, url })
+          }
+          await sleep(delay, signal)
+          continue
+        }
+        // Validate the error of the last attempt only, so it does not prevent retries.
+        await this.validateError(error, options.errorSchema)
+        throw this.transformError(error)
+      }
+    }
+  }
+
+  /**
+   * Executes a single attempt of an HTTP request.
+   * @param url
+   * @param options
+   * @param attempt
+   */
+  private async execute<R> (url: string, options: FetchOptions, attempt: number): Promise<FetchClientResponse<R>> {
     // Merge headers.
     const headers = new Headers({
       ...this.config.options.headers,
       ...this.config.headers,
-      ...options?.headers
+      ...options.headers
     })
 
     // Merge options.
-    let opts: FetchOptions = {
+    const opts: FetchOptions = {
       ...this.config.options,
       ...options,
-      headers
-    }
-
-    if (opts.body && typeof opts.body !== 'string') {
-      // Serialize object to JSON if no content-type defined.
-      if (!headers.has('content-type') &&
-        !(opts.body instanceof ArrayBuffer) &&
-        !(opts.body instanceof Blob) &&
-        !(opts.body instanceof FormData) &&
-        !(opts.body instanceof ReadableStream)) {
-        opts.body = JSON.stringify(opts.body)
-        headers.set('content-type', 'application/json')
-        opts.headers = headers
+      headers,
+      responseType: typeof options.responseType !== 'undefined'
+        ? options.responseType
+        : this.config.responseType,
+      // Let middlewares (ex: the cache) extend the valid statuses.
+      validateStatus: options.validateStatus ?? this.config.validateStatus
+    }
+
+    if (opts.body != null && !isBodyInit(opts.body)) {
+      // Serialize object to JSON if no content-type defined (multipart if it contains files).
+      if (!headers.has('content-type')) {
+        headers.set('content-type', containsBlob(opts.body) ? 'multipart/form-data' : 'application/json')
       }
+      const serializer = getSerializer(headers.get('content-type'), this.config.serializers)
+
+      if (serializer?.serialize) {
+        opts.body = await serializer.serialize(opts.body)
+
+        // Let fetch set the content-type with the boundary.
+        if (opts.body instanceof FormData) {
+          headers.delete('content-type')
+        }
+      }
+      opts.headers = headers
     }
 
-    // Prepend base URL to URL.
-    let targetUrl = url
-    if (!url.startsWith('http://') && !url.startsWith('https://') && this.config.baseUrl) {
-      targetUrl = url.startsWith('/')
-        ? `${this.config.baseUrl}${url}`
-        : `${this.config.baseUrl}/${url}`
+    const context: FetchContext = {
+      attempt,
+      options: opts,
+      url: this.resolveUrl(url, options)
     }
+    const middlewares = [...this.createHookMiddlewares(url)]
 
-    // Transform request.
-    if (this.config.transformRequest.length) {
-      this.config.transformRequest.forEach((transform) => {
-        opts = { ...opts, ...transform(targetUrl, opts) }
-      })
+    // Add credentials before other middlewares, so they can read them.
+    if (this.auth) {
+      middlewares.push(this.auth.middleware)
     }
+    middlewares.push(...this.config.middlewares)
 
-    // Execute async code before request.
-    if (this.config.beforeEach) {
-      opts = await this.config.beforeEach(url, opts)
+    // Use the cache as close as possible to the network.
+    if (this.cache) {
+      middlewares.push(this.cache.middleware)
+    }
+
+    // Log only requests sent to the network (not cached responses).
+    if (this.logger) {
+      middlewares.push(this.logger.middleware)
     }
 
-    const response = await fetch(targetUrl, opts)
+    const startTime = Date.now()
+    const details = () => ({
+      elapsed: Date.now() - startTime,
+      method: opts.method?.toUpperCase() ?? 'GET',
+      url: context.url
+    })
+
+    const resp = await runMiddlewares(middlewares, context, (ctx) => this.request(ctx))
+    return this.validateResponse<R>(resp, options.schema, details())
+  }
+
+  /**
+   * Executes the request of a context.
+   * @param context
+   */
+  private async request (context: FetchContext): Promise<FetchClientResponse> {
+    const { options: opts, url: targetUrl } = context
+    const method = opts.method?.toUpperCase() ?? 'GET'
+    const startTime = Date.now()
+    const details = (): FetchErrorDetails => ({ elapsed: Date.now() - startTime, method, url: targetUrl })
+
+    // Wait for the queue to execute the request.
+    const release = this.queue
+      ? await this.queue.acquire(targetUrl, { priority: opts.queuePriority, signal: opts.signal })
+      : undefined
+
+    const observer = new RequestObserver(this.events, this.config.tracer, { attempt: context.attempt, method, url: targetUrl })
+    observer.start(opts.body)
+
+    try {
+      // Abort the request if headers are not received in time.
+      const timeout = opts.timeout ?? this.config.timeout
+      const timer = timeout ? createTimeout(timeout, opts.signal) : undefined
+      let response: Response
+
+      try {
+        const signal = timer ? timer.signal : opts.signal
+        // Send the trace context without changing the options used by the deduplicator.
+        const traced = { ...opts, headers: observer.inject(opts.headers) }
+        // Report upload progress while sending body.
+        const upload = opts.onUploadProgress ? await trackUpload(traced, opts.onUploadProgress) : undefined
+        const init = upload?.init ?? traced
+
+        const adapter = this.config.fetch ?? fetch
+        const send = (s?: AbortSignal | null) => this.cookieJar
+          ? fetchWithCookies(this.cookieJar, targetUrl, { ...init, signal: s }, adapter)
+          : adapter(targetUrl, { ...init, signal: s })
+
+        response = this.deduplicator && opts.dedupe !== false
+          ? await this.deduplicator.fetch(context, signal, send)
+          : await send(signal)
+        upload?.done()
+      } catch (error) {
+        timer?.dispose()
+
+        if (timer?.timedOut && timeout) {
+          throw new FetchTimeoutError(`Request timed out after ${timeout}ms`, { ...details(), timeout })
+        }
+        throw this.toFetchError(error, opts.signal, details())
+      }
+      timer?.clear()
+      observer.headers(response)
+
+      // Pause the queue if the server asks to slow down.
+      if (this.queue?.pauseOnRateLimit && response.status === 429) {
+        const delay = parseRetryAfter(response.headers.get('retry-after'))
+
+        if (delay != null) {
+          this.queue.pause(delay, targetUrl)
+        }
+      }
+
+      let responseType = typeof opts.responseType !== 'undefined'
+        ? opts.responseType
+        : this.config.responseType
+
+      let deserialize: BodySerializer['deserialize']
+
+      // Use the deserializer or the type of the response content type.
+      if (responseType === 'auto') {
+        const contentType = response.headers.get('content-type')
+        deserialize = getSerializer(contentType, this.config.serializers)?.deserialize
+        responseType = getResponseType(contentType, this.config.responseTypes)
+      }
+      const validateStatus = opts.validateStatus ?? this.config.validateStatus
+      const valid = validateStatus ? validateStatus(response.status) : response.ok
+      let resp: FetchClientResponse
+      let bodySize = 0
+
+      try {
+        // Count the bytes of the body while reading it.
+        const { onDownloadProgress } = opts
+        const readOptions: FetchOptions = observer.measuresBody
+          ? { ...opts, onDownloadProgress: (event) => { bodySize = event.loaded; onDownloadProgress?.(event) } }
+          : opts
+        resp = await this.createResponse(response, responseType, readOptions, valid, details, deserialize)
+      } catch (error) {
+        timer?.dispose()
+        throw this.toFetchError(error, opts.signal, details())
+      }
+      // Detach the timeout signal and free the queue slot when the body is read (streams are read later).
+      resp.body = onBodyEnd(resp.body, () => {
+        timer?.dispose()
+        release?.()
+      })
+      observer.body(isStreamType(responseType) ? undefined : bodySize)
+
+      // Handle response error.
+      if (!valid) {
+        const message = `Request failed with status ${response.status}${response.statusText ? ` (${response.statusText})` : ''}`
+        throw new FetchResponseError(message, resp, details())
+      }
+      return resp
+    } catch (error) {
+      release?.()
+      observer.error(error)
+      throw error
+    }
+  }
+
+  /**
+   * Returns the client response from a Fetch response.
+   * @param response
+   * @param responseType
+   * @param options
+   * @param valid
+   * @param details
+   * @param deserialize
+   */
+  private async createResponse<R> (
+    response: Response,
+    responseType: FetchResponseType,
+    options: FetchOptions,
+    valid: boolean,
+    details: () => FetchErrorDetails,
+    deserialize?: BodySerializer['deserialize']
+  ): Promise<FetchClientResponse<R>> {
+    const { method, onDownloadProgress, onParseError } = options
     let body: any
     const contentLength = response.headers.get('content-length')
     const contentType = response.headers.get('content-type')
-    const responseType = typeof opts.responseType !== 'undefined'
-      ? opts.responseType
-      : this.config.responseType
 
     if (responseType && (contentType || (contentLength && contentLength !== '0')) &&
-      opts.method && !['HEAD', 'OPTIONS'].includes(opts.method)) {
-      // Convert body.
-      if (responseType === 'json') {
-        body = await response.json()
+      method && !['HEAD', 'OPTIONS'].includes(method)) {
+      // Report download progress while reading body.
+      const reader = onDownloadProgress && response.body
+        ? new Response(trackStream(response.body, getContentLength(response.headers), onDownloadProgress), {
+          headers: response.headers
+        })
+        : response
+
+      // Convert body (the body of error responses is not a stream of records).
+      if (deserialize) {
+        const buffer = await reader.arrayBuffer()
+        try {
+          body = await deserialize(buffer, response)
+        } catch (error) {
+          const text = new TextDecoder().decode(buffer)
+
+          if (valid) {
+            throw new FetchParseError(`Invalid response body: ${(error as Error).message}`, text, response.status, error, details())
+          }
+          body = text
+        }
+      } else if (responseType === 'json' || (!valid && (responseType === 'json-seq' || responseType === 'ndjson'))) {
+        const text = await reader.text()
+        try {
+          body = JSON.parse(text)
+        } catch (error) {
+          // Keep the raw body of error responses (ex: HTML error page).
+          if (valid) {
+            throw new FetchParseError(`Invalid JSON response: ${(error as Error).message}`, text, response.status, error, details())
+          }
+          body = text
+        }
       } else if (responseType === 'text') {
-        body = await response.text()
+        body = await reader.text()
       } else if (responseType === 'blob') {
-        body = await response.blob()
+        body = await reader.blob()
       } else if (responseType === 'arrayBuffer') {
-        body = await response.arrayBuffer()
+        body = await reader.arrayBuffer()
       } else if (responseType === 'formData') {
-        body = await response.formData()
+        body = await reader.formData()
       } else if (responseType === 'stream') {
-        body = response.body
+        body = reader.body
+      } else if ((responseType === 'json-seq' || responseType === 'ndjson') && reader.body) {
+        body = parseRecords(reader.body, responseType, { details: details(), onParseError, status: response.status })
       }
     }
 
     // Transform response.
-    if (response.ok && this.config.transformResponse.length) {
+    if (valid && this.config.transformResponse.length) {
       this.config.transformResponse.forEach((transform) => {
         body = transform(body, response)
       })
@@ -224,8 +896,10 @@ export class FetchClient {
       respHeaders[key] = value
     })
 
-    let resp: FetchClientResponse<R> = {
+    return {
       body,
+      // Headers.getSetCookie() is not available in old runtimes.
+      cookies: typeof response.headers.getSetCookie === 'function' ? response.headers.getSetCookie() : undefined,
       headers: respHeaders,
       original: response,
       redirected: response.redirected,
@@ -233,23 +907,39 @@ export class FetchClient {
       statusText: response.statusText,
       type: response.type
     }
+  }
 
-    // Handle response error.
-    if (!response.ok) {
-      let error = new FetchResponseError(response.statusText, resp)
+  /**
+   * Returns the middlewares of beforeEach, afterEach and transformRequest client options.
+   * @param url
+   */
+  private createHookMiddlewares (url: string): FetchMiddleware[] {
+    const { afterEach, beforeEach, transformRequest } = this.config
+    const middlewares: FetchMiddleware[] = []
 
-      // Transform the error.
-      if (this.config.transformError) {
-        error = this.config.transformError(error, resp)
-      }
-      throw error
+    // Transform request.
+    if (transformRequest.length) {
+      middlewares.push((context, next) => {
+        transformRequest.forEach((transform) => {
+          context.options = { ...context.options, ...transform(context.url, context.options) }
+        })
+        return next()
+      })
+    }
+
+    // Execute async code before request.
+    if (beforeEach) {
+      middlewares.push(async (context, next) => {
+        context.options = await beforeEach(url, context.options)
+        return next()
+      })
     }
 
     // Execute async code after request.
-    if (this.config.afterEach) {
-      resp = await this.config.afterEach(url, resp)
+    if (afterEach) {
+      middlewares.push(async (context, next) => afterEach(url, await next()))
     }
-    return resp
+    return middlewares
   }
 
   /**
@@ -257,45 +947,127 @@ export class FetchClient {
    * @param url
    * @param options
    */
-  get<R> (url: string, options?: FetchOptions): Promise<FetchClientResponse<R>> {
-    return this.fetch<R>(url, {
+  get<R, U extends string = string, S extends StandardSchemaV1 | undefined = undefined> (url: U, ...[options]: FetchArgs<U, FetchOptions & { schema?: S }>): Promise<FetchClientResponse<SchemaOutput<S, R>>> {
+    return this.fetch<R, string, S>(url, {
       ...options,
       method: 'GET'
     })
   }
 
+  /**
+   * Returns a copy of the client config.
+   */
+  getConfig (): Readonly<FetchClientConfig> {
+    return {
+      ...this.config,
+      headers: { ...this.config.headers },
+      middlewares: [...this.config.middlewares],
+      options: { ...this.config.options },
+      transformRequest: [...this.config.transformRequest],
+      transformResponse: [...this.config.transformResponse]
+    }
+  }
+
   /**
    * Executes a HEAD request.
    * @param url
    * @param options
    */
-  head<R> (url: string, options?: FetchOptions): Promise<FetchClientResponse<R>> {
-    return this.fetch<R>(url, {
+  head<R, U extends string = string, S extends StandardSchemaV1 | undefined = undefined> (url: U, ...[options]: FetchArgs<U, FetchOptions & { schema?: S }>): Promise<FetchClientResponse<SchemaOutput<S, R>>> {
+    return this.fetch<R, string, S>(url, {
       ...options,
       method: 'HEAD'
     })
   }
 
+  /**
+   * Removes cached responses with a URL starting with prefix (all if no prefix).
+   * A relative prefix is prefixed with the base URL.
+   * @param prefix
+   */
+  async invalidateCache (prefix?: string): Promise<void> {
+    const { baseUrl } = this.config
+    let target = prefix ?? ''
+
+    if (prefix != null && !prefix.startsWith('http://') && !prefix.startsWith('https://') && baseUrl) {
+      const base = splitUrl(baseUrl)
+      target = prefix.startsWith('/')
+        ? `${base.path}${prefix}`
+        : `${base.path}/${prefix}`
+    }
+    await this.cache?.invalidate(target)
+  }
+
+  /**
+   * Adds a listener of request events, and returns a function to remove it.
+   * Events are emitted for each attempt sent to the network (not for cached responses).
+   * @param name
+   * @param listener
+   */
+  on<N extends FetchEventName> (name: N, listener: FetchEventListener<N>): () => void {
+    return this.events.on(name, listener)
+  }
+
   /**
    * Executes an OPTIONS request.
    * @param url
    * @param options
    */
-  options<R> (url: string, options?: FetchOptions): Promise<FetchClientResponse<R>> {
-    return this.fetch<R>(url, {
+  options<R, U extends string = string, S extends StandardSchemaV1 | undefined = undefined> (url: U, ...[options]: FetchArgs<U, FetchOptions & { schema?: S }>): Promise<FetchClientResponse<SchemaOutput<S, R>>> {
+    return this.fetch<R, string, S>(url, {
       ...options,
       method: 'OPTIONS'
     })
   }
 
+  /**
+   * Returns the items of all pages.
+   * @param url
+   * @param options
+   */
+  async * paginate<T = any, R = any, U extends string = string> (url: U, ...[options]: FetchArgs<U, PaginateOptions<R, T>>): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.paginatePages<T, R, U>(url, ...[options] as FetchArgs<U, PaginateOptions<R, T>>)) {
+      yield * page.items
+    }
+  }
+
+  /**
+   * Returns the items of all pages in an array.
+   * @param url
+   * @param options
+   */
+  async paginateAll<T = any, R = any, U extends string = string> (url: U, ...[options]: FetchArgs<U, PaginateOptions<R, T>>): Promise<T[]> {
+    const items: T[] = []
+
+    for await (const item of this.paginate<T, R, U>(url, ...[options] as FetchArgs<U, PaginateOptions<R, T>>)) {
+      items.push(item)
+    }
+    return items
+  }
+
+  /**
+   * Returns all pages, with the response and the items of each page.
+   * @param url
+   * @param options
+   */
+  paginatePages<T = any, R = any, U extends string = string> (url: U, ...[options]: FetchArgs<U, PaginateOptions<R, T>>): AsyncGenerator<PaginationContext<R, T>, void, undefined> {
+    const { pagination, ...opts } = options ?? {}
+
+    return paginatePages<T, R>(
+      (nextUrl, nextOptions) => this.fetch<R, string, StandardSchemaV1 | undefined>(nextUrl, nextOptions) as Promise<FetchClientResponse<R>>,
+      { options: { method: 'GET', ...opts }, url },
+      pagination
+    )
+  }
+
   /**
    * Executes a PATCH request.
    * @param url
    * @param body
    * @param options
    */
-  patch<R> (url: string, body?: any, options?: FetchOptions): Promise<FetchClientResponse<R>> {
-    return this.fetch<R>(url, {
+  patch<R, U extends string = string, S extends StandardSchemaV1 | undefined = undefined> (url: U, body?: any, ...[options]: FetchArgs<U, FetchOptions & { schema?: S }>): Promise<FetchClientResponse<SchemaOutput<S, R>>> {
+    return this.fetch<R, string, S>(url, {
       ...options,
       body,
       method: 'PATCH'
@@ -308,8 +1080,8 @@ export class FetchClient {
    * @param body
    * @param options
    */
-  post<R> (url: string, body?: any, options?: FetchOptions): Promise<FetchClientResponse<R>> {
-    return this.fetch<R>(url, {
+  post<R, U extends string = string, S extends StandardSchemaV1 | undefined = undefined> (url: U, body?: any, ...[options]: FetchArgs<U, FetchOptions & { schema?: S }>): Promise<FetchClientResponse<SchemaOutput<S, R>>> {
+    return this.fetch<R, string, S>(url, {
       ...options,
       body,
       method: 'POST'
@@ -322,14 +1094,49 @@ export class FetchClient {
    * @param body
    * @param options
    */
-  put<R> (url: string, body?: any, options?: FetchOptions): Promise<FetchClientResponse<R>> {
-    return this.fetch<R>(url, {
+  put<R, U extends string = string, S extends StandardSchemaV1 | undefined = undefined> (url: U, body?: any, ...[options]: FetchArgs<U, FetchOptions & { schema?: S }>): Promise<FetchClientResponse<SchemaOutput<S, R>>> {
+    return this.fetch<R, string, S>(url, {
       ...options,
       body,
       method: 'PUT'
     })
   }
 
+  /**
+   * Returns the URL of a request with path params replaced,
+   * prefixed with the base URL if relative, and including serialized params.
+   * @param url
+   * @param options
+   */
+  private resolveUrl (url: string, options?: FetchOptions): string {
+    const { baseUrl } = this.config
+    const { hash, path, query } = splitUrl(fillPathParams(url, options?.pathParams))
+    const queries = [query]
+    let targetPath = path
+
+    // Prepend base URL to URL.
+    if (!url.startsWith('http://') && !url.startsWith('https://') && baseUrl) {
+      const base = splitUrl(baseUrl)
+      targetPath = path.startsWith('/')
+        ? `${base.path}${path}`
+        : `${base.path}/${path}`
+      queries.unshift(base.query)
+    }
+
+    // Serialize params.
+    const params = { ...(options?.clientParams !== false && this.config.params), ...options?.params }
+    const serializer = options?.paramsSerializer ?? this.config.paramsSerializer
+
+    if (Object.keys(params).length) {
+      queries.push(typeof serializer === 'function'
+        ? serializer(params)
+        : serializeParams(params, serializer))
+    }
+
+    const queryString = queries.filter((q) => q.length > 0).join('&')
+    return `${targetPath}${queryString ? `?${queryString}` : ''}${hash}`
+  }
+
   /**
    * Sets a default header.
    * @param name
@@ -370,4 +1177,123 @@ export class FetchClient {
   setOptions (options: FetchOptions): void {
     this.config.options = { ...options }
   }
+
+  /**
+   * Returns the events of a Server-Sent Events endpoint (text/event-stream),
+   * and reconnects with the Last-Event-ID header when the connection is closed or lost.
+   * The iteration stops without error when the signal is aborted.
+   * @param url
+   * @param options
+   */
+  sse<U extends string = string> (url: U, ...[options]: FetchArgs<U, SseRequestOptions>): AsyncGenerator<SseEvent, void, undefined> {
+    const { lastEventId, maxRetries, onOpen, reconnect, retryDelay, ...opts } = options ?? {}
+
+    return streamEvents(
+      (nextUrl, nextOptions) => this.fetch<ReadableStream<Uint8Array> | null, string, StandardSchemaV1 | undefined>(nextUrl, nextOptions) as Promise<FetchClientResponse<ReadableStream<Uint8Array> | null>>,
+      { options: { method: 'GET', ...opts }, url },
+      { lastEventId, maxRetries, onOpen, reconnect, retryDelay }
+    )
+  }
+
+  /**
+   * Adds a middleware called for each request, and returns a function to remove it.
+   * @param middleware
+   */
+  use (middleware: FetchMiddleware): () => void {
+    this.config.middlewares.push(middleware)
+
+    return () => {
+      const index = this.config.middlewares.indexOf(middleware)
+
+      if (index !== -1) {
+        this.config.middlewares.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * Checks if an error can be retried using the default policy.
+   * @param error
+   * @param statusCodes
+   */
+  private isRetryable (error: unknown, statusCodes: number[]): boolean {
+    if (error instanceof FetchResponseError) {
+      return statusCodes.includes(error.response.status)
+    }
+    if (error instanceof FetchTimeoutError) {
+      return true
+    }
+    // Other errors (ex: a body that cannot be serialized) would fail again.
+    return error instanceof FetchNetworkError
+  }
+
+  /**
+   * Returns a FetchError from an error thrown while executing a request.
+   * @param error
+   * @param signal
+   * @param details
+   */
+  private toFetchError (error: unknown, signal: AbortSignal | null | undefined, details: FetchErrorDetails): unknown {
+    if (error instanceof FetchError) {
+      return error
+    }
+    if (signal?.aborted) {
+      return new FetchAbortError('Request aborted', signal.reason, details)
+    }
+    // Fetch API rejects with a TypeError on network failure.
+    if (error instanceof TypeError) {
+      return new FetchNetworkError(`Network request failed: ${error.message}`, error, details)
+    }
+    return error
+  }
+
+  /**
+   * Validates the body of a response error with the error schema,
+   * a FetchValidationError is thrown if the body is invalid.
+   * @param error
+   * @param schema
+   */
+  private async validateError (error: unknown, schema: StandardSchemaV1 | undefined): Promise<void> {
+    if (error instanceof FetchResponseError && schema) {
+      const { elapsed, method, url } = error
+      error.response = await this.validateResponse(error.response, schema, { elapsed, method, url })
+    }
+  }
+
+  /**
+   * Returns the response with the body validated by the schema.
+   * @param response
+   * @param schema
+   * @param details
+   */
+  private async validateResponse<R> (response: FetchClientResponse, schema: StandardSchemaV1 | undefined, details: Partial<FetchErrorDetails>): Promise<FetchClientResponse<R>> {
+    if (!schema) {
+      return response
+    }
+    const result = await validateSchema(schema, response.body)
+
+    if (result.issues) {
+      throw new FetchValidationError(`Invalid response body: ${formatIssues(result.issues)}`, result.issues, response, details)
+    }
+    return { ...response, body: result.value as R }
+  }
+
+  /**
+   * Applies transformError to a response error.
+   * @param error
+   */
+  private transformError (error: unknown): unknown {
+    if (error instanceof FetchResponseError && this.config.transformError) {
+      const transformed = this.config.transformError(error, error.response)
+
+      // Keep the request metadata.
+      if (transformed instanceof FetchError && transformed !== error) {
+        transformed.elapsed ||= error.elapsed
+        transformed.method ||= error.method
+        transformed.url ||= error.url
+      }
+      return transformed
+    }
+    return error
+  }
 }
@@ -0,0 +1,251 @@
+import { FetchResponseError } from './errors'
+import type { FetchClientResponse } from './index'
+import type { FetchMiddleware } from './middleware'
+import { getMediaType } from './mime'
+import { isAsyncIterable } from './records'
+
+/**
+ * The details of logged requests:
+ * - "basic": a line per request with the method, the URL, the status and the duration
+ * - "headers": the headers of requests and responses
+ * - "body": the headers and the bodies of requests and responses
+ */
+export type LogLevel = 'basic' | 'body' | 'headers'
+
+export type LoggerOptions = {
+  /**
+   * Logs the cURL command of requests (default: true, except with the level "basic").
+   */
+  curl?: boolean
+  /**
+   * The details of logged requests (default: "basic").
+   */
+  level?: LogLevel
+  /**
+   * The function writing messages (default: console.log).
+   * @param message
+   */
+  log?: (message: string) => void
+  /**
+   * The maximum number of characters of logged bodies (default: 1000).
+   */
+  maxBodyLength?: number
+  /**
+   * The names of JSON fields and form fields to redact, at any depth (case-insensitive).
+   */
+  redactFields?: string[]
+  /**
+   * The names of headers to redact (authorization, cookie, proxy-authorization and set-cookie are always redacted).
+   */
+  redactHeaders?: string[]
+}
+
+const REDACTED = '[REDACTED]'
+
+const defaultRedactedHeaders = ['authorization', 'cookie', 'proxy-authorization', 'set-cookie']
+
+/**
+ * Returns a value with redacted fields (at any depth).
+ * @param value
+ * @param fields
+ */
+function redactFields (value: unknown, fields: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactFields(item, fields))
+  }
+  if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [
+      key,
+      fields.includes(key.toLowerCase()) ? REDACTED : redactFields(v, fields)
+    ]))
+  }
+  return value
+}
+
+/**
+ * Returns a string with a single-quoted argument of a shell command.
+ * @param value
+ */
+function quote (value: string): string {
+  return `'${value.replace(/'/g, '\'\\\'\'')}'`
+}
+
+/**
+ * Logs requests sent to the network, with redaction of sensitive headers and fields.
+ */
+export class RequestLogger {
+  private readonly options: Required<LoggerOptions>
+
+  constructor (options?: LoggerOptions) {
+    const level = options?.level ?? 'basic'
+    this.options = {
+      curl: level !== 'basic',
+      level,
+      log: (message) => console.log(message),
+      maxBodyLength: 1000,
+      ...options,
+      redactFields: (options?.redactFields ?? []).map((name) => name.toLowerCase()),
+      redactHeaders: [...defaultRedactedHeaders, ...options?.redactHeaders ?? []].map((name) => name.toLowerCase())
+    }
+  }
+
+  /**
+   * Returns the description of a body (redacted and truncated), or undefined if there is no body.
+   * @param body
+   * @param contentType
+   * @param truncate
+   */
+  private formatBody (body: unknown, contentType: string | null, truncate = true): string | undefined {
+    const { maxBodyLength, redactFields: fields } = this.options
+    const mediaType = getMediaType(contentType)
+    let text: string
+
+    if (body == null) {
+      return undefined
+    } else if (typeof body === 'string' && /[/+]json$/.test(mediaType)) {
+      try {
+        text = JSON.stringify(redactFields(JSON.parse(body), fields))
+      } catch {
+        text = body
+      }
+    } else if (body instanceof URLSearchParams ||
+      (typeof body === 'string' && mediaType === 'application/x-www-form-urlencoded')) {
+      const params = new URLSearchParams(body)
+      const names: string[] = []
+      params.forEach((_, name) => names.push(name))
+      names
+        .filter((name) => fields.includes(name.toLowerCase()))
+        .forEach((name) => params.set(name, REDACTED))
+      text = params.toString()
+    } else if (typeof body === 'string') {
+      text = body
+    } else if (body instanceof Blob) {
+      text = `[${body.constructor.name} ${body.size} bytes]`
+    } else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+      text = `[${body.constructor.name} ${body.byteLength} bytes]`
+    } else if (body instanceof FormData) {
+      text = '[FormData]'
+    } else if (body instanceof ReadableStream || isAsyncIterable(body)) {
+      text = '[Stream]'
+    } else {
+      text = JSON.stringify(redactFields(body, fields)) ?? String(body)
+    }
+
+    if (truncate && text.length > maxBodyLength) {
+      return `${text.substring(0, maxBodyLength)}... (${text.length - maxBodyLength} more characters)`
+    }
+    return text
+  }
+
+  /**
+   * Returns the cURL command of a request, with redacted headers and fields.
+   * @param method
+   * @param url
+   * @param options
+   */
+  private formatCurl (method: string, url: string, options: RequestInit): string {
+    const headers = new Headers(options.headers)
+    const args = ['curl']
+
+    if (method === 'HEAD') {
+      args.push('--head')
+    } else if (method !== 'GET') {
+      args.push(`-X ${method}`)
+    }
+    args.push(quote(url))
+
+    this.formatHeaders(headers).forEach((line) => args.push(`-H ${quote(line)}`))
+
+    if (options.body instanceof FormData) {
+      const { redactFields: fields } = this.options
+      options.body.forEach((value, name) => {
+        args.push(`-F ${quote(typeof value === 'string'
+          ? `${name}=${fields.includes(name.toLowerCase()) ? REDACTED : value}`
+          : `${name}=@${value.name}`)}`)
+      })
+    } else {
+      const body = this.formatBody(options.body, headers.get('content-type'), false)
+
+      if (body != null) {
+        args.push(`--data-raw ${quote(body)}`)
+      }
+    }
+    return args.join(' \\\n  ')
+  }
+
+  /**
+   * Returns the lines of headers, with redacted values.
+   * @param headers
+   */
+  private formatHeaders (headers: Headers | Record<string, string>): string[] {
+    const lines: string[] = []
+    new Headers(headers).forEach((value, name) => {
+      lines.push(`${name}: ${this.options.redactHeaders.includes(name) ? REDACTED : value}`)
+    })
+    return lines
+  }
+
+  /**
+   * Returns the message of a response.
+   * @param method
+   * @param url
+   * @param response
+   * @param duration
+   */
+  private formatResponse (method: string, url: string, response: FetchClientResponse, duration: number): string {
+    const { level } = this.options
+    const lines = [`<-- ${method} ${url} ${response.status}${response.statusText ? ` ${response.statusText}` : ''} (${Math.round(duration)}ms)`]
+
+    if (level !== 'basic') {
+      lines.push(...this.formatHeaders(response.headers))
+    }
+    if (level === 'body') {
+      const body = this.formatBody(response.body, response.headers['content-type'] ?? null)
+
+      if (body != null) {
+        lines.push('', body)
+      }
+    }
+    return lines.join('\n')
+  }
+
+  /**
+   * The middleware logging requests.
+   * @param context
+   * @param next
+   */
+  middleware: FetchMiddleware = async (context, next) => {
+    const { curl, level, log } = this.options
+    const { options, url } = context
+    const method = options.method?.toUpperCase() ?? 'GET'
+
+    if (level !== 'basic') {
+      const lines = [`--> ${method} ${url}`, ...this.formatHeaders(new Headers(options.headers))]
+
+      if (level === 'body') {
+        const body = this.formatBody(options.body, new Headers(options.headers).get('content-type'))
+
+        if (body != null) {
+          lines.push('', body)
+        }
+      }
+      log(lines.join('\n'))
+    }
+    if (curl) {
+      log(this.formatCurl(method, url, options))
+    }
+
+    const startTime = performance.now()
+    try {
+      const response = await next()
+      log(this.formatResponse(method, context.url, response, performance.now() - startTime))
+      return response
+    } catch (error) {
+      const duration = performance.now() - startTime
+      log(error instanceof FetchResponseError
+        ? this.formatResponse(method, context.url, error.response, duration)
+        : `<-- ${method} ${context.url} ${error instanceof Error ? `${error.name}: ${error.message}` : String(error)} (${Math.round(duration)}ms)`)
+      throw error
+    }
+  }
+}
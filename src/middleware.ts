@@ -0,0 +1,64 @@
+import type { FetchClientResponse, FetchOptions } from './index'
+
+export type FetchContext = {
+  /**
+   * The number of the attempt (starts at 1).
+   */
+  attempt: number
+  /**
+   * The error thrown by the next middlewares or by the request.
+   */
+  error?: unknown
+  /**
+   * The request options (can be modified before calling next()).
+   */
+  options: FetchOptions
+  /**
+   * The response returned by the next middlewares or by the request.
+   */
+  response?: FetchClientResponse
+  /**
+   * The resolved URL of the request (can be modified before calling next()).
+   */
+  url: string
+}
+
+/**
+ * Function called for each request, it must return a response by calling next() or by creating it.
+ * Calling next() several times executes the request again.
+ * @param context
+ * @param next
+ */
+export type FetchMiddleware = (
+  context: FetchContext,
+  next: () => Promise<FetchClientResponse>
+) => Promise<FetchClientResponse>
+
+/**
+ * Executes middlewares in order, the last one calling the handler.
+ * @param middlewares
+ * @param context
+ * @param handler
+ */
+export function runMiddlewares (
+  middlewares: FetchMiddleware[],
+  context: FetchContext,
+  handler: (context: FetchContext) => Promise<FetchClientResponse>
+): Promise<FetchClientResponse> {
+  const dispatch = async (index: number): Promise<FetchClientResponse> => {
+    const middleware = middlewares[index]
+    try {
+      const response = middleware
+        ? await middleware(context, () => dispatch(index + 1))
+        : await handler(context)
+      context.error = undefined
+      context.response = response
+      return response
+    } catch (error) {
+      context.error = error
+      context.response = undefined
+      throw error
+    }
+  }
+  return dispatch(0)
+}
@@ -0,0 +1,70 @@
+import type { FetchResponseType } from './index'
+
+/**
+ * The response types of content types, used by the response type "auto".
+ * Content types can contain "*" wildcards (ex: "text/*", "application/*+json"),
+ * the most specific content type matching the response is used.
+ */
+export type ResponseTypeMap = Record<string, Exclude<FetchResponseType, 'auto'>>
+
+export const defaultResponseTypes: ResponseTypeMap = {
+  '*/*': 'blob',
+  '*/*+json': 'json',
+  '*/*+xml': 'text',
+  'application/json': 'json',
+  'application/json-seq': 'json-seq',
+  'application/x-ndjson': 'ndjson',
+  'application/x-www-form-urlencoded': 'formData',
+  'application/xml': 'text',
+  'multipart/form-data': 'formData',
+  'text/*': 'text',
+  'text/event-stream': 'stream'
+}
+
+/**
+ * Returns the media type of a Content-Type header, without parameters (ex: "text/html").
+ * @param contentType
+ */
+export function getMediaType (contentType: string | null | undefined): string {
+  return (contentType ?? '').split(';')[0].trim().toLowerCase()
+}
+
+/**
+ * Checks if a media type matches a pattern containing "*" wildcards.
+ * @param mediaType
+ * @param pattern
+ */
+function matchMediaType (mediaType: string, pattern: string): boolean {
+  const regexp = new RegExp(`^${pattern
+    .toLowerCase()
+    .replace(/[.+?^$()[\]{}\\|]/g, '\\$&')
+    .replace(/\*/g, '[^/]*')}$`)
+  return regexp.test(mediaType)
+}
+
+/**
+ * Returns the most specific pattern matching a content type.
+ * Patterns can contain "*" wildcards (ex: "text/*", "application/*+json").
+ * @param contentType
+ * @param patterns
+ */
+export function findMediaType (contentType: string | null | undefined, patterns: string[]): string | undefined {
+  const mediaType = getMediaType(contentType) || '*/*'
+
+  // The pattern with the most characters (except wildcards) is the most specific.
+  return patterns
+    .filter((p) => matchMediaType(mediaType, p))
+    .sort((a, b) => b.replace(/\*/g, '').length - a.replace(/\*/g, '').length)[0]
+}
+
+/**
+ * Returns the response type of a content type (default: "blob").
+ * Custom types are merged with default types.
+ * @param contentType
+ * @param responseTypes
+ */
+export function getResponseType (contentType: string | null | undefined, responseTypes?: ResponseTypeMap): Exclude<FetchResponseType, 'auto'> {
+  const types: ResponseTypeMap = { ...defaultResponseTypes, ...responseTypes }
+  const pattern = findMediaType(contentType, Object.keys(types))
+  return pattern != null ? types[pattern] : 'blob'
+}
@@ -0,0 +1,378 @@
+import { sleep } from './retry'
+
+/**
+ * Function executing a request, compatible with the Fetch API.
+ * @param url
+ * @param init
+ */
+export type FetchAdapter = (url: string, init?: RequestInit) => Promise<Response>
+
+export type MockRequest = {
+  /**
+   * The request body (parsed from JSON if possible).
+   */
+  body: unknown
+  /**
+   * The request headers.
+   */
+  headers: Headers
+  /**
+   * The request method.
+   */
+  method: string
+  /**
+   * The values of ":name" and "{name}" placeholders of the route URL.
+   */
+  params: Record<string, string>
+  /**
+   * The query params.
+   */
+  query: Record<string, string | string[]>
+  /**
+   * The request URL.
+   */
+  url: string
+}
+
+export type MockResponseInit = {
+  /**
+   * The response body (objects are serialized to JSON).
+   */
+  body?: unknown
+  /**
+   * The time in milliseconds to wait before responding.
+   */
+  delay?: number
+  /**
+   * The error thrown instead of responding (ex: TypeError to simulate a network error).
+   */
+  error?: unknown
+  /**
+   * The response headers.
+   */
+  headers?: Record<string, string>
+  /**
+   * The response status (default: 200).
+   */
+  status?: number
+  /**
+   * The response status text.
+   */
+  statusText?: string
+}
+
+export type MockResponse =
+  MockResponseInit
+  | Response
+  | ((request: MockRequest) => MockResponseInit | Response | Promise<MockResponseInit | Response>)
+
+export type MockRouteOptions = {
+  /**
+   * The expected body, or a function returning true if the body matches.
+   */
+  body?: unknown
+  /**
+   * The expected headers.
+   */
+  headers?: Record<string, string>
+  /**
+   * The expected query params.
+   */
+  query?: Record<string, string | number | boolean | Array<string | number | boolean>>
+  /**
+   * The number of times the route can be used (default: Infinity).
+   */
+  times?: number
+}
+
+export type MockAdapterOptions = {
+  /**
+   * The default time in milliseconds to wait before responding.
+   */
+  delay?: number
+  /**
+   * The behavior when no route matches a request (default: "error"):
+   * - "error": throw an error
+   * - "passthrough": execute the request with the global fetch
+   */
+  onUnmatched?: 'error' | 'passthrough'
+}
+
+type UrlMatcher = (url: URL) => Record<string, string> | undefined
+
+type MockRoute = {
+  matchUrl: UrlMatcher
+  method: string
+  options: MockRouteOptions
+  response: MockResponse
+  uses: number
+}
+
+/**
+ * Returns a function returning the params of a URL if it matches the pattern.
+ * A string pattern can contain ":name", "{name}" and "*" placeholders,
+ * and it matches only the path of the URL if it is not absolute.
+ * A RegExp is tested against the full URL.
+ * @param pattern
+ */
+function createUrlMatcher (pattern: string | RegExp): UrlMatcher {
+  let regexp = pattern
+  let absolute = true
+
+  if (typeof pattern === 'string') {
+    absolute = /^https?:\/\//.test(pattern)
+    regexp = new RegExp(`^${pattern
+      .replace(/[.+?^$()[\]\\|]/g, '\\$&')
+      .replace(/(?<=^|\/):([A-Za-z_]\w*)|\{([A-Za-z_]\w*)\}/g, (match, colonName?: string, braceName?: string) => (
+        `(?<${colonName ?? braceName}>[^/]+)`
+      ))
+      .replace(/\*/g, '.*')}$`)
+  }
+
+  return (url) => {
+    const target = typeof pattern !== 'string'
+      ? url.href
+      : absolute ? `${url.origin}${url.pathname}` : url.pathname
+    const match = (regexp as RegExp).exec(target)
+
+    if (!match) {
+      return undefined
+    }
+    const params: Record<string, string> = {}
+    Object.entries(match.groups ?? {}).forEach(([name, value]) => {
+      params[name] = decodeURIComponent(value)
+    })
+    return params
+  }
+}
+
+/**
+ * Checks if two values are deeply equal.
+ * @param a
+ * @param b
+ */
+function isEqual (a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a == null || b == null ||
+    Array.isArray(a) !== Array.isArray(b)) {
+    return false
+  }
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+}
+
+/**
+ * Returns the body of a request, parsed from JSON if possible.
+ * @param body
+ */
+async function readBody (body: BodyInit | null | undefined): Promise<unknown> {
+  if (body == null || body instanceof FormData || body instanceof URLSearchParams) {
+    return body
+  }
+  const text = typeof body === 'string' ? body : await new Response(body).text()
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+/**
+ * Returns a Fetch response from a mock response.
+ * @param init
+ * @param url
+ */
+function toResponse (init: MockResponseInit, url: string): Response {
+  const headers = new Headers(init.headers)
+  let { body } = init
+
+  if (body != null && typeof body !== 'string' &&
+    !(body instanceof ArrayBuffer) &&
+    !(body instanceof Blob) &&
+    !(body instanceof FormData) &&
+    !(body instanceof ReadableStream) &&
+    !(body instanceof URLSearchParams) &&
+    !ArrayBuffer.isView(body)) {
+    body = JSON.stringify(body)
+
+    if (!headers.has('content-type')) {
+      headers.set('content-type', 'application/json')
+    }
+  }
+
+  const response = new Response(body as BodyInit | null | undefined ?? null, {
+    headers,
+    status: init.status ?? 200,
+    statusText: init.statusText
+  })
+  Object.defineProperty(response, 'url', { value: url })
+  return response
+}
+
+/**
+ * Responds to requests using routes, without network (useful in tests).
+ */
+export class MockAdapter {
+  /**
+   * The requests received by the adapter.
+   */
+  public readonly history: MockRequest[] = []
+  private readonly options: MockAdapterOptions
+  private routes: MockRoute[] = []
+
+  constructor (options?: MockAdapterOptions) {
+    this.options = {
+      onUnmatched: 'error',
+      ...options
+    }
+  }
+
+  /**
+   * Returns the number of routes that can still be used a limited number of times.
+   */
+  get pending (): number {
+    return this.routes.filter((r) => r.options.times != null && r.uses < r.options.times).length
+  }
+
+  /**
+   * The adapter to pass to the client (fetch option).
+   * @param url
+   * @param init
+   */
+  fetch: FetchAdapter = async (url, init = {}) => {
+    const { signal } = init
+    let { body } = init
+    const method = init.method?.toUpperCase() ?? 'GET'
+    const parsedUrl = new URL(url, 'http://localhost')
+    const query: Record<string, string | string[]> = {}
+
+    signal?.throwIfAborted()
+
+    parsedUrl.searchParams.forEach((value, name) => {
+      const current = query[name]
+      query[name] = current == null ? value : ([] as string[]).concat(current, value)
+    })
+
+    // Keep a copy of the stream body for passthrough.
+    if (body instanceof ReadableStream) {
+      const [copy, passthrough] = body.tee()
+      body = copy
+      init = { ...init, body: passthrough }
+    }
+
+    const request: MockRequest = {
+      body: await readBody(body),
+      headers: new Headers(init.headers),
+      method,
+      params: {},
+      query,
+      url
+    }
+    this.history.push(request)
+
+    const route = this.routes.find((r) => this.matches(r, request, parsedUrl))
+
+    if (!route) {
+      if (this.options.onUnmatched === 'passthrough') {
+        return fetch(url, init)
+      }
+      throw new Error(`No mock route for ${method} ${url}`)
+    }
+    route.uses++
+
+    const response = typeof route.response === 'function'
+      ? await route.response(request)
+      : route.response
+
+    if (response instanceof Response) {
+      // A Response body can be read only once.
+      return response.clone()
+    }
+
+    const delay = response.delay ?? this.options.delay
+
+    if (delay) {
+      await sleep(delay, signal)
+    }
+    if ('error' in response) {
+      throw response.error
+    }
+    return toResponse(response, parsedUrl.href)
+  }
+
+  /**
+   * Returns the received requests matching a method and a URL pattern.
+   * @param method
+   * @param url
+   */
+  getRequests (method: string = '*', url: string | RegExp = '*'): MockRequest[] {
+    const matchUrl = createUrlMatcher(url)
+    return this.history.filter((request) => (method === '*' || request.method === method.toUpperCase()) &&
+      matchUrl(new URL(request.url, 'http://localhost')) != null)
+  }
+
+  /**
+   * Adds a route responding to requests matching a method ("*" for all) and a URL pattern.
+   * The URL pattern can contain ":name", "{name}" and "*" placeholders,
+   * and it matches the path of the request if it is not an absolute URL.
+   * Routes are matched in order of addition.
+   * @param method
+   * @param url
+   * @param response
+   * @param options
+   */
+  on (method: string, url: string | RegExp, response: MockResponse, options?: MockRouteOptions): this {
+    this.routes.push({
+      matchUrl: createUrlMatcher(url),
+      method: method.toUpperCase(),
+      options: options ?? {},
+      response,
+      uses: 0
+    })
+    return this
+  }
+
+  /**
+   * Removes routes and history.
+   */
+  reset (): void {
+    this.history.length = 0
+    this.routes = []
+  }
+
+  /**
+   * Checks if a route matches a request, and sets request params.
+   * @param route
+   * @param request
+   * @param url
+   */
+  private matches (route: MockRoute, request: MockRequest, url: URL): boolean {
+    const { body, headers, query, times } = route.options
+
+    if ((route.method !== '*' && route.method !== request.method) ||
+      (times != null && route.uses >= times)) {
+      return false
+    }
+    const params = route.matchUrl(url)
+
+    if (!params) {
+      return false
+    }
+    if (headers && !Object.entries(headers).every(([name, value]) => request.headers.get(name) === value)) {
+      return false
+    }
+    if (query && !Object.entries(query).every(([name, value]) => (
+      isEqual(url.searchParams.getAll(name), ([] as unknown[]).concat(value).map(String))
+    ))) {
+      return false
+    }
+    if (body !== undefined && !(typeof body === 'function' ? body(request.body) : isEqual(body, request.body))) {
+      return false
+    }
+    request.params = params
+    return true
+  }
+}
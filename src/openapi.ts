@@ -0,0 +1,380 @@
+import type { FetchClient, FetchClientResponse, FetchOptions } from './index'
+
+export type OpenApiMethod = 'delete' | 'get' | 'head' | 'options' | 'patch' | 'post' | 'put'
+
+/**
+ * Returns the paths having an operation for a method (ex: OpenApiPaths<paths, 'get'>).
+ */
+export type OpenApiPaths<P, M extends OpenApiMethod> = {
+  [K in keyof P]: P[K] extends Record<M, { responses: unknown }> ? K : never
+}[keyof P] & string
+
+/**
+ * Returns the operation of a path for a method.
+ */
+export type OpenApiOperation<P, U, M extends OpenApiMethod> = U extends keyof P
+  ? P[U] extends Record<M, infer O> ? O : never
+  : never
+
+/**
+ * Returns the type of a JSON content, or of the first content type.
+ */
+type ContentType<C> = C extends { 'application/json': infer T } ? T : C[keyof C]
+
+type OperationParameters<O> = O extends { parameters: infer P } ? P : unknown
+
+/**
+ * Returns the option of a group of parameters (required if the group is required).
+ */
+type ParameterOption<P, K extends string, N extends string> = K extends keyof P
+  ? [NonNullable<P[K]>] extends [never]
+      ? Partial<Record<N, never>>
+      : P extends Record<K, unknown> ? Record<N, P[K]> : Partial<Record<N, NonNullable<P[K]>>>
+  : Partial<Record<N, never>>
+
+type RequestBody<O> = O extends { requestBody?: infer B }
+  ? NonNullable<B> extends { content: infer C } ? ContentType<C> : never
+  : never
+
+type BodyOption<O> = [RequestBody<O>] extends [never]
+  ? { body?: never }
+  : O extends Record<'requestBody', unknown> ? { body: RequestBody<O> } : { body?: RequestBody<O> }
+
+/**
+ * Returns the options of an operation: path params, query params and body are typed with the operation.
+ */
+export type OpenApiRequestOptions<O> = Omit<FetchOptions, 'body' | 'params' | 'pathParams'> &
+  ParameterOption<OperationParameters<O>, 'path', 'pathParams'> &
+  ParameterOption<OperationParameters<O>, 'query', 'params'> &
+  BodyOption<O>
+
+/**
+ * The arguments following the URL of an operation,
+ * options are required when the operation has required params or body.
+ */
+export type OpenApiArgs<O> = Record<string, never> extends OpenApiRequestOptions<O>
+  ? [options?: OpenApiRequestOptions<O>]
+  : [options: OpenApiRequestOptions<O>]
+
+type SuccessStatus = 200 | 201 | 202 | 203 | 204 | 205 | 206 | 207 | 208 | 226
+
+type Responses<O> = O extends { responses: infer R } ? R : never
+
+type ResponseBody<R> = R extends { content: infer C } ? ContentType<C> : undefined
+
+type StatusCode<S> = S extends number ? S : S extends `${infer N extends number}` ? N : number
+
+type IsSuccess<S> = S extends SuccessStatus | `${SuccessStatus}` | '2XX' ? true : false
+
+type OperationResponse<O, Success extends boolean> = {
+  [S in keyof Responses<O>]: IsSuccess<S> extends Success
+    ? FetchClientResponse<ResponseBody<Responses<O>[S]>> & { status: StatusCode<S> }
+    : never
+}[keyof Responses<O>]
+
+/**
+ * Returns the successful responses (2xx) of an operation, discriminated by status.
+ */
+export type OpenApiResponse<O> = [OperationResponse<O, true>] extends [never]
+  ? FetchClientResponse<unknown>
+  : OperationResponse<O, true>
+
+/**
+ * Returns the error responses of an operation (ex: the response of a FetchResponseError), discriminated by status.
+ */
+export type OpenApiErrorResponse<O> = OperationResponse<O, false>
+
+export type OpenApiClient<P> = {
+  [M in OpenApiMethod]: <U extends OpenApiPaths<P, M>> (
+    url: U,
+    ...args: OpenApiArgs<OpenApiOperation<P, U, M>>
+  ) => Promise<OpenApiResponse<OpenApiOperation<P, U, M>>>
+}
+
+const methods: OpenApiMethod[] = ['delete', 'get', 'head', 'options', 'patch', 'post', 'put']
+
+/**
+ * Returns functions executing the operations of an OpenAPI document,
+ * typed with the "paths" type generated from the document (by generateOpenApiTypes() or openapi-typescript).
+ * Requests are executed with client.fetch() and the response type "auto" (unless defined in options).
+ * @param client
+ */
+export function createOpenApiClient<P> (client: FetchClient): OpenApiClient<P> {
+  const api: Record<string, unknown> = {}
+
+  methods.forEach((method) => {
+    api[method] = (url: string, options?: FetchOptions) => client.fetch(url, {
+      responseType: 'auto',
+      ...options,
+      method: method.toUpperCase()
+    })
+  })
+  return api as OpenApiClient<P>
+}
+
+export type OpenApiSchema = {
+  $ref?: string
+  additionalProperties?: boolean | OpenApiSchema
+  allOf?: OpenApiSchema[]
+  anyOf?: OpenApiSchema[]
+  const?: unknown
+  enum?: unknown[]
+  format?: string
+  items?: OpenApiSchema
+  nullable?: boolean
+  oneOf?: OpenApiSchema[]
+  properties?: Record<string, OpenApiSchema>
+  required?: string[]
+  type?: string | string[]
+}
+
+type OpenApiReference = { $ref: string }
+
+type OpenApiContent = Record<string, { schema?: OpenApiSchema }>
+
+type OpenApiParameter = {
+  in: string
+  name: string
+  required?: boolean
+  schema?: OpenApiSchema
+}
+
+type OpenApiOperationObject = {
+  parameters?: Array<OpenApiParameter | OpenApiReference>
+  requestBody?: { content?: OpenApiContent, required?: boolean } | OpenApiReference
+  responses?: Record<string, { content?: OpenApiContent } | OpenApiReference>
+}
+
+type OpenApiPathItem = Partial<Record<OpenApiMethod, OpenApiOperationObject>> & {
+  parameters?: Array<OpenApiParameter | OpenApiReference>
+}
+
+/**
+ * An OpenAPI 3 document (only the parts used to generate types).
+ */
+export type OpenApiDocument = {
+  components?: {
+    parameters?: Record<string, OpenApiParameter | OpenApiReference>
+    requestBodies?: Record<string, OpenApiOperationObject['requestBody']>
+    responses?: Record<string, { content?: OpenApiContent } | OpenApiReference>
+    schemas?: Record<string, OpenApiSchema>
+  }
+  openapi?: string
+  paths?: Record<string, OpenApiPathItem>
+}
+
+/**
+ * Returns a string literal.
+ * @param value
+ */
+function printString (value: string): string {
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, '\\\'')}'`
+}
+
+/**
+ * Returns the key of a property, quoted if needed.
+ * @param name
+ */
+function printKey (name: string): string {
+  return /^([A-Za-z_$][\w$]*|\d+)$/.test(name) ? name : printString(name)
+}
+
+/**
+ * Returns the members of an object type, indented to a depth.
+ * @param members
+ * @param depth
+ */
+function printObject (members: string[], depth: number): string {
+  if (members.length === 0) {
+    return '{}'
+  }
+  const padding = '  '.repeat(depth + 1)
+  return `{\n${members.map((member) => padding + member).join('\n')}\n${'  '.repeat(depth)}}`
+}
+
+/**
+ * Returns the value of a local reference (ex: "#/components/parameters/page").
+ * @param document
+ * @param value
+ */
+function resolve<T> (document: OpenApiDocument, value: T | OpenApiReference | undefined): T | undefined {
+  if (value == null || typeof value !== 'object' || !('$ref' in value)) {
+    return value
+  }
+  if (!value.$ref.startsWith('#/')) {
+    return undefined
+  }
+  const target = value.$ref.substring(2).split('/')
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((object, key) => (object as Record<string, unknown> | undefined)?.[key], document)
+  return resolve(document, target as T | OpenApiReference | undefined)
+}
+
+/**
+ * Checks if the type of a schema is a union (wrapped in parentheses when combined).
+ * @param schema
+ */
+function isUnion (schema: OpenApiSchema): boolean {
+  return schema.$ref == null && (schema.anyOf != null || schema.oneOf != null || schema.nullable === true ||
+    (schema.enum != null && schema.enum.length > 1) || (Array.isArray(schema.type) && schema.type.length > 1))
+}
+
+/**
+ * Returns the type of a schema.
+ * @param document
+ * @param schema
+ * @param depth
+ */
+function printSchema (document: OpenApiDocument, schema: OpenApiSchema | boolean | undefined, depth: number): string {
+  if (schema == null || schema === true) {
+    return 'unknown'
+  }
+  if (schema === false) {
+    return 'never'
+  }
+  const wrap = (s: OpenApiSchema) => {
+    const type = printSchema(document, s, depth)
+    return isUnion(s) || s.allOf != null ? `(${type})` : type
+  }
+  let type: string
+
+  if (schema.$ref != null) {
+    const match = /^#\/components\/schemas\/([^/]+)$/.exec(schema.$ref)
+    type = match
+      ? `components['schemas'][${printString(decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~'))}]`
+      : printSchema(document, resolve<OpenApiSchema>(document, schema as OpenApiReference), depth)
+  } else if ('const' in schema) {
+    type = typeof schema.const === 'string' ? printString(schema.const) : JSON.stringify(schema.const)
+  } else if (schema.enum != null) {
+    type = schema.enum.map((value) => typeof value === 'string' ? printString(value) : JSON.stringify(value)).join(' | ')
+  } else if (schema.oneOf != null || schema.anyOf != null) {
+    type = (schema.oneOf ?? schema.anyOf ?? []).map((s) => printSchema(document, s, depth)).join(' | ')
+  } else if (schema.allOf != null) {
+    type = schema.allOf.map(wrap).join(' & ')
+  } else if (Array.isArray(schema.type)) {
+    type = schema.type.map((t) => printSchema(document, { ...schema, nullable: false, type: t }, depth)).join(' | ')
+  } else if (schema.type === 'array') {
+    type = `${schema.items ? wrap(schema.items) : 'unknown'}[]`
+  } else if (schema.type === 'boolean' || schema.type === 'null') {
+    type = schema.type
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number'
+  } else if (schema.type === 'string') {
+    type = schema.format === 'binary' ? 'Blob' : 'string'
+  } else if (schema.type === 'object' || schema.properties != null || schema.additionalProperties != null) {
+    const { additionalProperties, properties = {}, required = [] } = schema
+    const members = Object.entries(properties).map(([name, s]) => (
+      `${printKey(name)}${required.includes(name) ? '' : '?'}: ${printSchema(document, s, depth + 1)}`
+    ))
+
+    if (members.length === 0 && additionalProperties == null) {
+      type = 'Record<string, unknown>'
+    } else if (members.length === 0 && additionalProperties === false) {
+      type = 'Record<string, never>'
+    } else {
+      // Properties must match the index signature.
+      if (additionalProperties != null && additionalProperties !== false) {
+        members.push(`[key: string]: ${members.length > 0 ? 'unknown' : printSchema(document, additionalProperties, depth + 1)}`)
+      }
+      type = printObject(members, depth)
+    }
+  } else {
+    type = 'unknown'
+  }
+  return schema.nullable === true && type !== 'unknown' ? `${type} | null` : type
+}
+
+/**
+ * Returns the type of the contents of a request body or a response.
+ * @param document
+ * @param content
+ * @param depth
+ */
+function printContent (document: OpenApiDocument, content: OpenApiContent, depth: number): string {
+  return printObject(Object.entries(content).map(([mediaType, { schema }]) => (
+    `${printString(mediaType)}: ${printSchema(document, schema, depth + 1)}`
+  )), depth)
+}
+
+/**
+ * Returns the type of an operation.
+ * @param document
+ * @param operation
+ * @param pathParameters
+ * @param depth
+ */
+function printOperation (
+  document: OpenApiDocument,
+  operation: OpenApiOperationObject,
+  pathParameters: OpenApiPathItem['parameters'],
+  depth: number
+): string {
+  const members: string[] = []
+  // Parameters of the operation override parameters of the path.
+  const parameters = new Map<string, OpenApiParameter>()
+
+  ;[...pathParameters ?? [], ...operation.parameters ?? []].forEach((value) => {
+    const parameter = resolve(document, value)
+
+    if (parameter != null) {
+      parameters.set(`${parameter.in}:${parameter.name}`, parameter)
+    }
+  })
+
+  const groups = ['header', 'path', 'query'].map((location) => {
+    const list = [...parameters.values()].filter((p) => p.in === location)
+    const required = location === 'path' || list.some((p) => p.required)
+
+    return list.length === 0 ? null : `${location}${required ? '' : '?'}: ${printObject(list.map((p) => (
+      `${printKey(p.name)}${p.required || location === 'path' ? '' : '?'}: ${printSchema(document, p.schema, depth + 3)}`
+    )), depth + 2)}`
+  }).filter((group) => group != null)
+
+  if (groups.length > 0) {
+    members.push(`parameters: ${printObject(groups, depth + 1)}`)
+  }
+  const requestBody = resolve(document, operation.requestBody)
+
+  if (requestBody?.content != null) {
+    members.push(`requestBody${requestBody.required ? '' : '?'}: ${printObject([
+      `content: ${printContent(document, requestBody.content, depth + 2)}`
+    ], depth + 1)}`)
+  }
+  members.push(`responses: ${printObject(Object.entries(operation.responses ?? {}).map(([status, value]) => {
+    const response = resolve(document, value)
+    const content = response?.content != null && Object.keys(response.content).length > 0
+      ? `content: ${printContent(document, response.content, depth + 3)}`
+      : 'content?: never'
+    return `${printKey(status)}: ${printObject([content], depth + 2)}`
+  }), depth + 1)}`)
+
+  return printObject(members, depth)
+}
+
+/**
+ * Returns the TypeScript code of the "paths" and "components" types of an OpenAPI 3 document,
+ * to use with createOpenApiClient<paths>().
+ * Only local references are resolved (ex: "#/components/schemas/User").
+ * @param document
+ */
+export function generateOpenApiTypes (document: OpenApiDocument): string {
+  const paths = Object.entries(document.paths ?? {}).map(([path, item]) => (
+    `${printString(path)}: ${printObject(methods
+      .filter((method) => item[method] != null)
+      .map((method) => `${method}: ${printOperation(document, item[method] as OpenApiOperationObject, item.parameters, 2)}`), 1)}`
+  ))
+  const schemas = Object.entries(document.components?.schemas ?? {}).map(([name, schema]) => (
+    `${printKey(name)}: ${printSchema(document, schema, 2)}`
+  ))
+
+  return [
+    '/**',
+    ' * This file was generated from an OpenAPI document, do not edit it manually.',
+    ' */',
+    '',
+    `export type paths = ${printObject(paths, 0)}`,
+    '',
+    `export type components = ${printObject([`schemas: ${printObject(schemas, 1)}`], 0)}`,
+    ''
+  ].join('\n')
+}
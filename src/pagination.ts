@@ -0,0 +1,253 @@
+import { FetchAbortError } from './errors'
+import type { FetchClientResponse, FetchOptions } from './index'
+
+export type PaginationContext<R = unknown, T = unknown> = {
+  /**
+   * The items of the current page.
+   */
+  items: T[]
+  /**
+   * The options of the current request.
+   */
+  options: FetchOptions
+  /**
+   * The number of the current page (starts at 1).
+   */
+  page: number
+  /**
+   * The response of the current request.
+   */
+  response: FetchClientResponse<R>
+  /**
+   * The URL of the current request.
+   */
+  url: string
+}
+
+export type PaginationRequest = {
+  /**
+   * The options of the next request.
+   */
+  options: FetchOptions
+  /**
+   * The URL of the next request.
+   */
+  url: string
+}
+
+/**
+ * Returns the next request, or undefined if there are no more pages.
+ * @param context
+ */
+export type PaginationStrategy<R = unknown, T = unknown> = (
+  context: PaginationContext<R, T>
+) => PaginationRequest | null | undefined
+
+export type PaginationOptions<R = unknown, T = unknown> = {
+  /**
+   * Returns the items of a page (default: the body if it is an array).
+   * @param response
+   */
+  items?: (response: FetchClientResponse<R>) => T[]
+  /**
+   * The maximum number of items to return.
+   */
+  maxItems?: number
+  /**
+   * The maximum number of pages to fetch.
+   */
+  maxPages?: number
+  /**
+   * Returns the next request (default: linkPagination()).
+   */
+  next?: PaginationStrategy<R, T>
+}
+
+/**
+ * Returns the URLs of a Link header by relation (ex: { next: "https://..." }).
+ * @param value
+ */
+export function parseLinkHeader (value: string | null | undefined): Record<string, string> {
+  const links: Record<string, string> = {}
+
+  if (value) {
+    for (const [, url, params] of value.matchAll(/<([^>]*)>((?:\s*;\s*[^;,]+)*)/g)) {
+      const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(params)
+
+      if (rel) {
+        // A relation can contain several types (ex: rel="next last").
+        (rel[1] ?? rel[2]).split(/\s+/).forEach((type) => {
+          if (type && !(type.toLowerCase() in links)) {
+            links[type.toLowerCase()] = url
+          }
+        })
+      }
+    }
+  }
+  return links
+}
+
+/**
+ * Returns a strategy following the "next" URL of the Link header (RFC 8288).
+ */
+export function linkPagination (): PaginationStrategy {
+  return ({ options, response, url }) => {
+    const next = parseLinkHeader(response.headers.link).next
+
+    if (!next) {
+      return undefined
+    }
+    let nextUrl = next
+    try {
+      nextUrl = new URL(next, response.original.url || url).href
+    } catch {
+      // Relative URL without base is kept as is.
+    }
+    // Params (including client params) and path params are already in the next URL.
+    return {
+      options: { ...options, clientParams: false, params: undefined, pathParams: undefined },
+      url: nextUrl
+    }
+  }
+}
+
+/**
+ * Returns a strategy passing the cursor found in the response as a query param.
+ * @param options
+ */
+export function cursorPagination (options: {
+  /**
+   * Returns the cursor of the next page, or a nullish or empty value if there are no more pages.
+   * @param response
+   */
+  cursor: (response: FetchClientResponse) => string | number | null | undefined
+  /**
+   * The name of the query param (default: "cursor").
+   */
+  param?: string
+}): PaginationStrategy {
+  const { cursor: getCursor, param = 'cursor' } = options
+
+  return ({ options: opts, response, url }) => {
+    const cursor = getCursor(response)
+
+    if (cursor == null || cursor === '') {
+      return undefined
+    }
+    return {
+      options: { ...opts, params: { ...opts.params, [param]: cursor } },
+      url
+    }
+  }
+}
+
+/**
+ * Returns a strategy incrementing the offset query param by the number of items received.
+ * Pagination stops when a page is empty or contains fewer items than the limit query param.
+ * @param options
+ */
+export function offsetPagination (options?: {
+  /**
+   * The name of the limit query param (default: "limit").
+   */
+  limitParam?: string
+  /**
+   * The name of the offset query param (default: "offset").
+   */
+  offsetParam?: string
+}): PaginationStrategy {
+  const { limitParam = 'limit', offsetParam = 'offset' } = options ?? {}
+
+  return ({ items, options: opts, url }) => {
+    const limit = Number(opts.params?.[limitParam])
+
+    if (items.length === 0 || items.length < limit) {
+      return undefined
+    }
+    const offset = Number(opts.params?.[offsetParam] ?? 0)
+    return {
+      options: { ...opts, params: { ...opts.params, [offsetParam]: offset + items.length } },
+      url
+    }
+  }
+}
+
+/**
+ * Returns a strategy incrementing the page query param.
+ * Pagination stops when a page is empty or contains fewer items than the size query param.
+ * @param options
+ */
+export function pagePagination (options?: {
+  /**
+   * The name of the page query param (default: "page").
+   */
+  pageParam?: string
+  /**
+   * The name of the page size query param (default: "size").
+   */
+  sizeParam?: string
+  /**
+   * The number of the first page (default: 1).
+   */
+  start?: number
+}): PaginationStrategy {
+  const { pageParam = 'page', sizeParam = 'size', start = 1 } = options ?? {}
+
+  return ({ items, options: opts, url }) => {
+    const size = Number(opts.params?.[sizeParam])
+
+    if (items.length === 0 || items.length < size) {
+      return undefined
+    }
+    const page = Number(opts.params?.[pageParam] ?? start)
+    return {
+      options: { ...opts, params: { ...opts.params, [pageParam]: page + 1 } },
+      url
+    }
+  }
+}
+
+/**
+ * Fetches pages until the strategy returns no next request or a limit is reached.
+ * @param execute
+ * @param request
+ * @param pagination
+ */
+export async function * paginatePages<T, R> (
+  execute: (url: string, options: FetchOptions) => Promise<FetchClientResponse<R>>,
+  request: PaginationRequest,
+  pagination?: PaginationOptions<R, T>
+): AsyncGenerator<PaginationContext<R, T>, void, undefined> {
+  const {
+    items: getItems = (response: FetchClientResponse<R>) => (Array.isArray(response.body) ? response.body : []) as T[],
+    maxItems = Infinity,
+    maxPages = Infinity,
+    next = linkPagination()
+  } = pagination ?? {}
+  let current: PaginationRequest | null | undefined = request
+  let count = 0
+  let page = 0
+
+  while (current && page < maxPages && count < maxItems) {
+    const { signal } = current.options
+
+    if (signal?.aborted) {
+      throw new FetchAbortError('Request aborted', signal.reason, {
+        method: current.options.method?.toUpperCase(),
+        url: current.url
+      })
+    }
+    const response = await execute(current.url, current.options)
+    page++
+
+    let items = getItems(response) ?? []
+    if (count + items.length > maxItems) {
+      items = items.slice(0, maxItems - count)
+    }
+    count += items.length
+
+    const context: PaginationContext<R, T> = { ...current, items, page, response }
+    yield context
+    current = next(context)
+  }
+}
@@ -0,0 +1,114 @@
+export type FetchParams = Record<string, unknown>
+
+/**
+ * The format of arrays in query string:
+ * - "brackets": a[]=1&a[]=2
+ * - "comma": a=1,2
+ * - "repeat": a=1&a=2
+ */
+export type ParamsArrayFormat = 'brackets' | 'comma' | 'repeat'
+
+export type ParamsSerializerOptions = {
+  /**
+   * The format of arrays (default: "repeat").
+   */
+  arrayFormat?: ParamsArrayFormat
+}
+
+export type ParamsSerializer = (params: FetchParams) => string
+
+/**
+ * Encodes a query string key, keeping brackets readable.
+ * @param key
+ */
+function encodeKey (key: string): string {
+  return encodeURIComponent(key)
+    .replace(/%5B/gi, '[')
+    .replace(/%5D/gi, ']')
+}
+
+/**
+ * Encodes a query string value.
+ * @param value
+ */
+function encodeValue (value: unknown): string {
+  return encodeURIComponent(value instanceof Date ? value.toISOString() : String(value))
+}
+
+/**
+ * Checks if value is an object that should be serialized using bracket notation.
+ * @param value
+ */
+function isNested (value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !(value instanceof Date)
+}
+
+/**
+ * Serializes a param and adds it to parts.
+ * @param key
+ * @param value
+ * @param arrayFormat
+ * @param parts
+ */
+function serializeParam (key: string, value: unknown, arrayFormat: ParamsArrayFormat, parts: string[]): void {
+  if (value == null) {
+    return
+  }
+  if (Array.isArray(value)) {
+    if (arrayFormat === 'comma' && !value.some(isNested)) {
+      const items = value.filter((item) => item != null)
+
+      if (items.length) {
+        parts.push(`${encodeKey(key)}=${items.map(encodeValue).join(',')}`)
+      }
+      return
+    }
+    value.forEach((item, index) => {
+      if (isNested(item)) {
+        serializeParam(`${key}[${index}]`, item, arrayFormat, parts)
+      } else {
+        serializeParam(arrayFormat === 'brackets' ? `${key}[]` : key, item, arrayFormat, parts)
+      }
+    })
+  } else if (isNested(value)) {
+    Object.entries(value).forEach(([k, v]) => {
+      serializeParam(`${key}[${k}]`, v, arrayFormat, parts)
+    })
+  } else {
+    parts.push(`${encodeKey(key)}=${encodeValue(value)}`)
+  }
+}
+
+/**
+ * Returns the query string (without "?") of params.
+ * Null and undefined values are ignored, dates are converted to ISO strings
+ * and nested objects are serialized using bracket notation (ex: a[b]=1).
+ * @param params
+ * @param options
+ */
+export function serializeParams (params: FetchParams, options?: ParamsSerializerOptions): string {
+  const arrayFormat = options?.arrayFormat ?? 'repeat'
+  const parts: string[] = []
+
+  Object.entries(params).forEach(([key, value]) => {
+    serializeParam(key, value, arrayFormat, parts)
+  })
+  return parts.join('&')
+}
+
+/**
+ * Returns the path, the query string (without "?") and the hash (with "#") of a URL.
+ * @param url
+ */
+export function splitUrl (url: string): { hash: string, path: string, query: string } {
+  const hashIndex = url.indexOf('#')
+  const hash = hashIndex !== -1 ? url.substring(hashIndex) : ''
+  const rest = hashIndex !== -1 ? url.substring(0, hashIndex) : url
+  const queryIndex = rest.indexOf('?')
+
+  return {
+    hash,
+    path: queryIndex !== -1 ? rest.substring(0, queryIndex) : rest,
+    query: queryIndex !== -1 ? rest.substring(queryIndex + 1) : ''
+  }
+}
@@ -0,0 +1,67 @@
+import { splitUrl } from './params'
+
+export type PathParamValue = string | number | boolean
+
+/**
+ * Returns the name of a ":name" param, without the suffix of the segment (ex: ":id.json").
+ */
+type ColonParamName<P extends string> =
+  P extends `${infer N}.${string}` ? N
+    : P extends `${infer N}-${string}` ? N
+      : P
+
+/**
+ * Returns the names of the params in a path segment.
+ */
+type SegmentParamNames<S extends string> =
+  S extends `${string}{${infer P}}${infer Rest}` ? P | SegmentParamNames<Rest>
+    : S extends `:${infer P}` ? ColonParamName<P>
+      : never
+
+/**
+ * Returns the names of the params in a path.
+ */
+type PathSegmentsParamNames<T extends string> =
+  T extends `${infer S}/${infer Rest}`
+    ? SegmentParamNames<S> | PathSegmentsParamNames<Rest>
+    : SegmentParamNames<T>
+
+/**
+ * Returns the names of the params in a URL (ex: "/users/:id/posts/{postId}" => "id" | "postId").
+ */
+export type PathParamNames<T extends string> =
+  T extends `${infer P}?${string}` ? PathSegmentsParamNames<P>
+    : T extends `${infer P}#${string}` ? PathSegmentsParamNames<P>
+      : PathSegmentsParamNames<T>
+
+/**
+ * Returns the path params required by a URL.
+ */
+export type PathParams<T extends string> = string extends T
+  ? Record<string, PathParamValue>
+  : { [K in PathParamNames<T>]: PathParamValue }
+
+const pathParamPattern = /(?<=^|\/):([A-Za-z_]\w*)|\{([A-Za-z_]\w*)\}/g
+
+/**
+ * Replaces ":name" and "{name}" placeholders in the path of a URL with encoded values.
+ * @param url
+ * @param params
+ */
+export function fillPathParams (url: string, params?: Record<string, PathParamValue>): string {
+  const { hash, path, query } = splitUrl(url)
+
+  const filledPath = path.replace(pathParamPattern, (match, colonName?: string, braceName?: string) => {
+    const name = (colonName ?? braceName) as string
+    const value = params?.[name]
+
+    if (value == null) {
+      throw new Error(`Missing path param "${name}" in URL "${url}"`)
+    }
+    return encodeURIComponent(String(value))
+  })
+  if (filledPath === path) {
+    return url
+  }
+  return `${filledPath}${query ? `?${query}` : ''}${hash}`
+}
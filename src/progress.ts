@@ -0,0 +1,138 @@
+export type FetchProgressEvent = {
+  /**
+   * The number of bytes transferred.
+   */
+  loaded: number
+  /**
+   * The transfer rate in bytes per second.
+   */
+  rate: number
+  /**
+   * The total number of bytes (undefined if unknown).
+   */
+  total?: number
+}
+
+export type FetchProgressCallback = (event: FetchProgressEvent) => void
+
+let requestStreamsSupported: boolean | undefined
+
+/**
+ * Checks if streams can be used as request body.
+ */
+export function supportsRequestStreams (): boolean {
+  if (requestStreamsSupported == null) {
+    try {
+      let duplexAccessed = false
+      const hasContentType = new Request('http://localhost', {
+        body: new ReadableStream(),
+        method: 'POST',
+        get duplex () {
+          duplexAccessed = true
+          return 'half'
+        }
+      } as RequestInit).headers.has('content-type')
+      requestStreamsSupported = duplexAccessed && !hasContentType
+    } catch {
+      requestStreamsSupported = false
+    }
+  }
+  return requestStreamsSupported
+}
+
+/**
+ * Returns a stream that calls the callback each time a chunk is read.
+ * @param stream
+ * @param total
+ * @param callback
+ */
+export function trackStream (
+  stream: ReadableStream<Uint8Array>,
+  total: number | undefined,
+  callback: FetchProgressCallback
+): ReadableStream<Uint8Array> {
+  const startTime = Date.now()
+  let loaded = 0
+
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform (chunk, controller) {
+      loaded += chunk.byteLength
+      controller.enqueue(chunk)
+      callback({
+        loaded,
+        rate: loaded / Math.max((Date.now() - startTime) / 1000, 0.001),
+        total
+      })
+    }
+  }))
+}
+
+/**
+ * Returns the total size of a body from the content-length header,
+ * or undefined if unknown or if the body is encoded (ex: gzip).
+ * @param headers
+ */
+export function getContentLength (headers: Headers): number | undefined {
+  const encoding = headers.get('content-encoding')
+  const length = Number(headers.get('content-length'))
+
+  if ((encoding && encoding !== 'identity') || !headers.has('content-length') || Number.isNaN(length)) {
+    return undefined
+  }
+  return length
+}
+
+/**
+ * Returns the request options with a body that reports upload progress,
+ * and a function to call when the request has been sent.
+ * When streams are not supported as request body, progress is reported only at the start and at the end.
+ * @param init
+ * @param callback
+ */
+export async function trackUpload (init: RequestInit, callback: FetchProgressCallback): Promise<{ done: () => void, init: RequestInit }> {
+  const { body } = init
+  const startTime = Date.now()
+  const headers = new Headers(init.headers)
+  let source: Blob | ReadableStream<Uint8Array>
+  let total: number | undefined
+
+  if (body == null) {
+    return { done: () => undefined, init }
+  }
+
+  if (body instanceof ReadableStream) {
+    source = body
+    total = getContentLength(headers)
+  } else {
+    // Convert body to Blob to know its size (and the boundary of FormData).
+    const blob = await new Response(body).blob()
+    source = blob
+    total = blob.size
+
+    if (!headers.has('content-type') && blob.type) {
+      headers.set('content-type', blob.type)
+    }
+  }
+
+  if (!supportsRequestStreams()) {
+    callback({ loaded: 0, rate: 0, total })
+
+    return {
+      done: () => {
+        const loaded = total ?? 0
+        callback({ loaded, rate: loaded / Math.max((Date.now() - startTime) / 1000, 0.001), total })
+      },
+      init: { ...init, body: source, headers }
+    }
+  }
+
+  return {
+    done: () => undefined,
+    init: {
+      ...init,
+      body: trackStream(source instanceof ReadableStream ? source : source.stream(), total, callback),
+      duplex: 'half',
+      headers
+    } as RequestInit
+  }
+}
@@ -0,0 +1,216 @@
+export type RateLimit = {
+  /**
+   * The duration in milliseconds of the interval.
+   */
+  interval: number
+  /**
+   * The maximum number of requests started during the interval.
+   */
+  limit: number
+}
+
+export type QueueOptions = {
+  /**
+   * The maximum number of requests executed at the same time (default: Infinity).
+   * A streaming response (ex: "stream", "ndjson", sse()) is counted until its body is read or cancelled.
+   */
+  concurrency?: number
+  /**
+   * Pause the queue when a response has the status 429 with a Retry-After header (default: true).
+   */
+  pauseOnRateLimit?: boolean
+  /**
+   * Apply limits per host instead of globally (default: false).
+   */
+  perHost?: boolean
+  /**
+   * The maximum number of requests started per interval (token bucket).
+   */
+  rateLimit?: RateLimit
+}
+
+type QueueTask = {
+  priority: number
+  resolve: () => void
+}
+
+type QueueLane = {
+  active: number
+  pausedUntil: number
+  timer?: ReturnType<typeof setTimeout>
+  tokens: number
+  updatedAt: number
+  waiting: QueueTask[]
+}
+
+/**
+ * Limits the number of requests executed at the same time and the number of requests started per interval.
+ * Waiting requests are executed by priority (highest first), then in order of arrival.
+ */
+export class RequestQueue {
+  private readonly lanes = new Map<string, QueueLane>()
+  private readonly options: QueueOptions
+
+  constructor (options?: QueueOptions) {
+    this.options = {
+      pauseOnRateLimit: true,
+      ...options
+    }
+  }
+
+  /**
+   * Returns the number of requests in progress.
+   */
+  get active (): number {
+    let count = 0
+    this.lanes.forEach((lane) => {
+      count += lane.active
+    })
+    return count
+  }
+
+  /**
+   * Returns the number of waiting requests.
+   */
+  get size (): number {
+    let count = 0
+    this.lanes.forEach((lane) => {
+      count += lane.waiting.length
+    })
+    return count
+  }
+
+  /**
+   * Tells if the queue must be paused when a response has the status 429.
+   */
+  get pauseOnRateLimit (): boolean {
+    return this.options.pauseOnRateLimit !== false
+  }
+
+  /**
+   * Waits for a slot to execute a request, and returns a function to release the slot.
+   * @param url
+   * @param options
+   */
+  acquire (url: string, options?: { priority?: number, signal?: AbortSignal | null }): Promise<() => void> {
+    const signal = options?.signal
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason)
+    }
+
+    const lane = this.getLane(url)
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        lane.waiting.splice(lane.waiting.indexOf(task), 1)
+        reject(signal?.reason)
+      }
+      const task: QueueTask = {
+        priority: options?.priority ?? 0,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort)
+          let released = false
+
+          resolve(() => {
+            if (!released) {
+              released = true
+              lane.active--
+              this.process(lane)
+            }
+          })
+        }
+      }
+
+      // Insert the task after tasks with the same or a higher priority.
+      const index = lane.waiting.findIndex((t) => t.priority < task.priority)
+      lane.waiting.splice(index !== -1 ? index : lane.waiting.length, 0, task)
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.process(lane)
+    })
+  }
+
+  /**
+   * Pauses the start of requests during a delay.
+   * @param delay
+   * @param url the URL of the host to pause when limits are applied per host
+   */
+  pause (delay: number, url?: string): void {
+    const lanes = url != null ? [this.getLane(url)] : Array.from(this.lanes.values())
+
+    lanes.forEach((lane) => {
+      lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + delay)
+      this.process(lane)
+    })
+  }
+
+  /**
+   * Returns the lane of a URL.
+   * @param url
+   */
+  private getLane (url: string): QueueLane {
+    let key = ''
+
+    if (this.options.perHost) {
+      try {
+        key = new URL(url).host
+      } catch {
+        // Relative URL uses the global lane.
+      }
+    }
+
+    let lane = this.lanes.get(key)
+
+    if (!lane) {
+      lane = {
+        active: 0,
+        pausedUntil: 0,
+        tokens: this.options.rateLimit?.limit ?? 0,
+        updatedAt: Date.now(),
+        waiting: []
+      }
+      this.lanes.set(key, lane)
+    }
+    return lane
+  }
+
+  /**
+   * Starts waiting requests if possible, or schedules the next start.
+   * @param lane
+   */
+  private process (lane: QueueLane): void {
+    const { concurrency = Infinity, rateLimit } = this.options
+
+    if (lane.timer) {
+      clearTimeout(lane.timer)
+      lane.timer = undefined
+    }
+
+    while (lane.waiting.length > 0 && lane.active < concurrency) {
+      const now = Date.now()
+      let wait = lane.pausedUntil - now
+
+      // Refill tokens.
+      if (rateLimit && wait <= 0) {
+        lane.tokens = Math.min(rateLimit.limit, lane.tokens + (now - lane.updatedAt) * rateLimit.limit / rateLimit.interval)
+        lane.updatedAt = now
+
+        if (lane.tokens < 1) {
+          wait = Math.ceil((1 - lane.tokens) * rateLimit.interval / rateLimit.limit)
+        }
+      }
+
+      if (wait > 0) {
+        lane.timer = setTimeout(() => this.process(lane), wait)
+        return
+      }
+
+      if (rateLimit) {
+        lane.tokens--
+      }
+      lane.active++
+      const task = lane.waiting.shift() as QueueTask
+      task.resolve()
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { FetchErrorDetails, FetchParseError } from './errors'
+
+/**
+ * The format of a stream of JSON records:
+ * - "json-seq": records prefixed with the record separator (RFC 7464)
+ * - "ndjson": records separated by line feeds (newline delimited JSON)
+ */
+export type RecordFormat = 'json-seq' | 'ndjson'
+
+export type RecordStreamOptions = {
+  /**
+   * The metadata of the request, added to parse errors.
+   */
+  details?: Partial<FetchErrorDetails>
+  /**
+   * The behavior when a record cannot be parsed (default: "throw"):
+   * - "skip": ignore the record
+   * - "throw": throw a FetchParseError
+   */
+  onParseError?: 'skip' | 'throw'
+  /**
+   * The status of the response, added to parse errors.
+   */
+  status?: number
+}
+
+const RECORD_SEPARATOR = '\x1E'
+
+/**
+ * Checks if a value is an async iterable (ex: the body of "ndjson" responses).
+ * @param value
+ */
+export function isAsyncIterable (value: unknown): value is AsyncIterable<unknown> {
+  return value != null && typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+}
+
+/**
+ * Returns the body calling the callback when it ends, fails or is cancelled (ex: a stream of a response),
+ * or calls the callback immediately if the body is not a stream nor an async iterable.
+ * @param body
+ * @param callback
+ */
+export function onBodyEnd<T> (body: T, callback: () => void): T {
+  let ended = false
+  const end = () => {
+    if (!ended) {
+      ended = true
+      callback()
+    }
+  }
+
+  if (body instanceof ReadableStream) {
+    const reader = body.getReader()
+    // Read chunks only when requested (no buffering).
+    return new ReadableStream({
+      async pull (controller) {
+        try {
+          const { done, value } = await reader.read()
+
+          if (done) {
+            end()
+            controller.close()
+          } else {
+            controller.enqueue(value)
+          }
+        } catch (error) {
+          end()
+          controller.error(error)
+        }
+      },
+      async cancel (reason) {
+        end()
+        await reader.cancel(reason)
+      }
+    }, { highWaterMark: 0 }) as T
+  }
+  if (isAsyncIterable(body)) {
+    const iterable = body
+    return (async function * () {
+      try {
+        yield * iterable
+      } finally {
+        end()
+      }
+    })() as T
+  }
+  end()
+  return body
+}
+
+/**
+ * Returns the raw records of a stream, decoded from UTF-8.
+ * Chunks are read only when the next record is requested.
+ * @param stream
+ * @param format
+ */
+async function * splitRecords (stream: ReadableStream<Uint8Array>, format: RecordFormat): AsyncGenerator<string, void, undefined> {
+  const separator = format === 'json-seq' ? RECORD_SEPARATOR : '\n'
+  const reader = stream.getReader()
+  // Keep incomplete characters until the next chunk.
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      let index = buffer.indexOf(separator)
+      while (index !== -1) {
+        yield buffer.substring(0, index)
+        buffer = buffer.substring(index + 1)
+        index = buffer.indexOf(separator)
+      }
+      if (done) {
+        break
+      }
+    }
+    yield buffer
+  } finally {
+    // Close the connection if the iteration is stopped.
+    await reader.cancel().catch(() => undefined)
+  }
+}
+
+/**
+ * Returns the parsed records of a stream of JSON records (NDJSON or JSON text sequences).
+ * @param stream
+ * @param format
+ * @param options
+ */
+export async function * parseRecords<T = unknown> (
+  stream: ReadableStream<Uint8Array>,
+  format: RecordFormat,
+  options?: RecordStreamOptions
+): AsyncGenerator<T, void, undefined> {
+  const { details, onParseError = 'throw', status = 0 } = options ?? {}
+
+  for await (const text of splitRecords(stream, format)) {
+    const record = text.replace(/\r$/, '')
+
+    // Ignore empty lines.
+    if (record.trim() === '') {
+      continue
+    }
+    let value: T
+
+    try {
+      value = JSON.parse(record)
+
+      // A number, true, false or null at the end of a record may have been truncated (RFC 7464, section 2.4).
+      if (format === 'json-seq' && !/\s$/.test(record) && (value == null || typeof value !== 'object') &&
+        typeof value !== 'string') {
+        throw new SyntaxError('Truncated record')
+      }
+    } catch (error) {
+      if (onParseError === 'skip') {
+        continue
+      }
+      throw new FetchParseError(`Invalid ${format} record: ${(error as Error).message}`, record, status, error, details)
+    }
+    yield value
+  }
+}
@@ -0,0 +1,154 @@
+export type RetryContext = {
+  /**
+   * The number of the attempt that failed (starts at 1).
+   */
+  attempt: number
+  /**
+   * The delay in milliseconds before the next attempt.
+   */
+  delay: number
+  /**
+   * The error of the failed attempt.
+   */
+  error: unknown
+  /**
+   * The request method.
+   */
+  method: string
+  /**
+   * The request URL.
+   */
+  url: string
+}
+
+export type RetryOptions = {
+  /**
+   * The maximum number of attempts, including the first one (default: 3).
+   */
+  attempts?: number
+  /**
+   * The delay in milliseconds before the first retry (default: 1000).
+   */
+  delay?: number
+  /**
+   * The multiplier applied to the delay after each retry (default: 2).
+   */
+  factor?: number
+  /**
+   * The ratio (between 0 and 1) of the delay that is randomized (default: 0.2).
+   */
+  jitter?: number
+  /**
+   * The maximum delay in milliseconds between two attempts (default: 30000).
+   * When the Retry-After header asks for a longer delay, the request is not retried.
+   */
+  maxDelay?: number
+  /**
+   * The methods that can be retried (default: idempotent methods).
+   */
+  methods?: string[]
+  /**
+   * Function called before each retry.
+   * @param context
+   */
+  onRetry?: (context: RetryContext) => void | Promise<void>
+  /**
+   * Use the Retry-After header of the response to compute the delay (default: true).
+   */
+  respectRetryAfter?: boolean
+  /**
+   * Decides if a failed attempt should be retried.
+   * Replaces the default behavior (retry network errors and statusCodes).
+   * @param error
+   * @param attempt
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean | Promise<boolean>
+  /**
+   * The response status codes that can be retried.
+   */
+  statusCodes?: number[]
+}
+
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, 'onRetry' | 'shouldRetry'>> &
+  Pick<RetryOptions, 'onRetry' | 'shouldRetry'>
+
+export const defaultRetryOptions: ResolvedRetryOptions = {
+  attempts: 3,
+  delay: 1000,
+  factor: 2,
+  jitter: 0.2,
+  maxDelay: 30000,
+  methods: ['DELETE', 'GET', 'HEAD', 'OPTIONS', 'PUT'],
+  respectRetryAfter: true,
+  statusCodes: [408, 429, 500, 502, 503, 504]
+}
+
+/**
+ * Returns the retry options to use for a request, or undefined if retry is disabled.
+ * @param clientRetry
+ * @param requestRetry
+ */
+export function resolveRetryOptions (
+  clientRetry?: RetryOptions | boolean,
+  requestRetry?: RetryOptions | boolean
+): ResolvedRetryOptions | undefined {
+  if (requestRetry === false || (requestRetry == null && !clientRetry)) {
+    return undefined
+  }
+  return {
+    ...defaultRetryOptions,
+    ...(typeof clientRetry === 'object' ? clientRetry : null),
+    ...(typeof requestRetry === 'object' ? requestRetry : null)
+  }
+}
+
+/**
+ * Returns the delay in milliseconds before the next attempt.
+ * @param options
+ * @param attempt
+ */
+export function computeRetryDelay (options: ResolvedRetryOptions, attempt: number): number {
+  const delay = Math.min(options.delay * Math.pow(options.factor, attempt - 1), options.maxDelay)
+  const jitter = Math.min(Math.max(options.jitter, 0), 1)
+  return Math.round(delay - (delay * jitter * Math.random()))
+}
+
+/**
+ * Returns the delay in milliseconds from a Retry-After header value.
+ * @param value
+ */
+export function parseRetryAfter (value: string | null | undefined): number | undefined {
+  if (value == null || value.trim() === '') {
+    return undefined
+  }
+  // Value is a number of seconds.
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000
+  }
+  // Value is an HTTP date.
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+/**
+ * Waits for a delay, unless the signal is aborted.
+ * @param ms
+ * @param signal
+ */
+export function sleep (ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,56 @@
+export type StandardSchemaIssue = {
+  /**
+   * The error message of the issue.
+   */
+  readonly message: string
+  /**
+   * The path of the invalid value.
+   */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+}
+
+export type StandardSchemaResult<Output> =
+  { readonly issues?: undefined, readonly value: Output }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+/**
+ * A validator implementing the Standard Schema specification (ex: zod, valibot, arktype).
+ * @see https://standardschema.dev
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly types?: { readonly input: Input, readonly output: Output } | undefined
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly vendor: string
+    readonly version: 1
+  }
+}
+
+/**
+ * The type of a value validated by a schema, or R if there is no schema.
+ */
+export type SchemaOutput<S, R> = S extends StandardSchemaV1
+  ? NonNullable<S['~standard']['types']>['output']
+  : R
+
+/**
+ * Returns the message describing validation issues.
+ * @param issues
+ */
+export function formatIssues (issues: ReadonlyArray<StandardSchemaIssue>): string {
+  return issues.map((issue) => {
+    const path = issue.path
+      ?.map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+      .join('.')
+    return path ? `${path}: ${issue.message}` : issue.message
+  }).join(', ')
+}
+
+/**
+ * Validates a value using a schema.
+ * @param schema
+ * @param value
+ */
+export async function validateSchema<Output> (schema: StandardSchemaV1<unknown, Output>, value: unknown): Promise<StandardSchemaResult<Output>> {
+  return schema['~standard'].validate(value)
+}
@@ -0,0 +1,146 @@
+import { findMediaType } from './mime'
+import { FetchParams, ParamsSerializerOptions, serializeParams } from './params'
+
+export type BodySerializer = {
+  /**
+   * Returns the body of a response (used by the response type "auto").
+   * @param body
+   * @param response
+   */
+  deserialize?: (body: ArrayBuffer, response: Response) => unknown | Promise<unknown>
+  /**
+   * Returns the body of a request.
+   * @param body
+   */
+  serialize?: (body: unknown) => BodyInit | Promise<BodyInit>
+}
+
+/**
+ * The serializers of content types (ex: "application/json", "application/*+xml").
+ * The most specific content type matching the request or the response is used.
+ */
+export type BodySerializerMap = Record<string, BodySerializer>
+
+/**
+ * Checks if a body can be sent without serialization.
+ * @param body
+ */
+export function isBodyInit (body: unknown): body is BodyInit {
+  return typeof body === 'string' ||
+    body instanceof ArrayBuffer ||
+    body instanceof Blob ||
+    body instanceof FormData ||
+    body instanceof ReadableStream ||
+    body instanceof URLSearchParams ||
+    ArrayBuffer.isView(body)
+}
+
+/**
+ * Checks if an object contains a Blob (at any depth).
+ * @param value
+ */
+export function containsBlob (value: unknown): boolean {
+  if (value instanceof Blob) {
+    return true
+  }
+  if (typeof value !== 'object' || value == null || value instanceof Date) {
+    return false
+  }
+  return Object.values(value).some(containsBlob)
+}
+
+/**
+ * Adds a value to form data, using bracket notation for nested objects (ex: "user[name]").
+ * @param formData
+ * @param key
+ * @param value
+ */
+function appendFormData (formData: FormData, key: string, value: unknown): void {
+  if (value == null) {
+    return
+  }
+  if (value instanceof Blob) {
+    // File names are kept by FormData.
+    formData.append(key, value)
+  } else if (value instanceof Date) {
+    formData.append(key, value.toISOString())
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      appendFormData(formData, typeof item === 'object' && item !== null && !(item instanceof Blob) && !(item instanceof Date)
+        ? `${key}[${index}]`
+        : key, item)
+    })
+  } else if (typeof value === 'object') {
+    Object.entries(value).forEach(([k, v]) => appendFormData(formData, `${key}[${k}]`, v))
+  } else {
+    formData.append(key, String(value))
+  }
+}
+
+/**
+ * Returns form data from a plain object.
+ * @param body
+ */
+export function toFormData (body: Record<string, unknown>): FormData {
+  const formData = new FormData()
+  Object.entries(body).forEach(([key, value]) => appendFormData(formData, key, value))
+  return formData
+}
+
+/**
+ * Returns a serializer of JSON bodies.
+ * @param options
+ */
+export function jsonSerializer (options?: {
+  /**
+   * The replacer passed to JSON.stringify().
+   */
+  replacer?: (this: unknown, key: string, value: unknown) => unknown
+  /**
+   * The reviver passed to JSON.parse().
+   */
+  reviver?: (this: unknown, key: string, value: unknown) => unknown
+}): BodySerializer {
+  const { replacer, reviver } = options ?? {}
+  return {
+    deserialize: (body) => JSON.parse(new TextDecoder().decode(body), reviver),
+    serialize: (body) => JSON.stringify(body, replacer)
+  }
+}
+
+/**
+ * Returns a serializer of multipart/form-data bodies from plain objects (Blobs and Files are sent as files).
+ */
+export function multipartSerializer (): BodySerializer {
+  return {
+    serialize: (body) => toFormData(body as Record<string, unknown>)
+  }
+}
+
+/**
+ * Returns a serializer of application/x-www-form-urlencoded bodies from plain objects.
+ * @param options
+ */
+export function urlEncodedSerializer (options?: ParamsSerializerOptions): BodySerializer {
+  return {
+    serialize: (body) => serializeParams(body as FetchParams, options)
+  }
+}
+
+export const defaultSerializers: BodySerializerMap = {
+  'application/json': jsonSerializer(),
+  'application/x-www-form-urlencoded': urlEncodedSerializer(),
+  'multipart/form-data': multipartSerializer()
+}
+
+/**
+ * Returns the serializer of a content type.
+ * Custom serializers are merged with default serializers.
+ * @param contentType
+ * @param serializers
+ */
+export function getSerializer (contentType: string | null | undefined, serializers?: BodySerializerMap): BodySerializer | undefined {
+  const map: BodySerializerMap = { ...defaultSerializers, ...serializers }
+  const pattern = findMediaType(contentType, Object.keys(map))
+  return pattern != null ? map[pattern] : undefined
+}
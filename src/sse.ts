@@ -0,0 +1,288 @@
+import { FetchError, FetchNetworkError, FetchTimeoutError } from './errors'
+import type { FetchClientResponse, FetchOptions } from './index'
+import { sleep } from './retry'
+
+export type SseEvent = {
+  /**
+   * The data of the event (lines joined with "\n").
+   */
+  data: string
+  /**
+   * The type of the event (default: "message").
+   */
+  event: string
+  /**
+   * The ID of the last event received.
+   */
+  id: string
+  /**
+   * The reconnection time in milliseconds sent with the event.
+   */
+  retry?: number
+}
+
+export type SseOptions = {
+  /**
+   * The ID sent in the Last-Event-ID header of the first connection.
+   */
+  lastEventId?: string
+  /**
+   * The maximum number of consecutive reconnections (default: Infinity).
+   */
+  maxRetries?: number
+  /**
+   * Function called when the connection is opened.
+   * @param response
+   */
+  onOpen?: (response: FetchClientResponse) => void
+  /**
+   * Reconnect when the connection is closed or lost (default: true).
+   */
+  reconnect?: boolean
+  /**
+   * The time in milliseconds to wait before reconnecting (default: 3000),
+   * replaced by the retry field sent by the server.
+   */
+  retryDelay?: number
+}
+
+/**
+ * Parses the text of an event stream (HTML Living Standard, section 9.2.6).
+ */
+export class SseParser {
+  /**
+   * The ID of the last event received.
+   */
+  public lastEventId: string
+  /**
+   * The reconnection time in milliseconds sent by the server.
+   */
+  public retry?: number
+  private buffer = ''
+  private data: string[] = []
+  private eventRetry?: number
+  private eventType = ''
+  private skipLineFeed = false
+  private started = false
+
+  constructor (lastEventId: string = '') {
+    this.lastEventId = lastEventId
+  }
+
+  /**
+   * Returns the events completed by a chunk of text.
+   * @param chunk
+   */
+  parse (chunk: string): SseEvent[] {
+    const events: SseEvent[] = []
+    const lineEnd = /\r\n|\r|\n/g
+    let match: RegExpExecArray | null
+    let start = 0
+
+    // Ignore the line feed following a carriage return received at the end of the previous chunk.
+    this.buffer += this.skipLineFeed && chunk.startsWith('\n') ? chunk.substring(1) : chunk
+    this.skipLineFeed = false
+
+    // Ignore the byte order mark.
+    if (!this.started && this.buffer.length > 0) {
+      this.started = true
+      this.buffer = this.buffer.replace(/^\uFEFF/, '')
+    }
+
+    while ((match = lineEnd.exec(this.buffer)) != null) {
+      const event = this.parseLine(this.buffer.substring(start, match.index))
+      start = lineEnd.lastIndex
+      this.skipLineFeed = match[0] === '\r' && start === this.buffer.length
+
+      if (event) {
+        events.push(event)
+      }
+    }
+    this.buffer = this.buffer.substring(start)
+    return events
+  }
+
+  /**
+   * Discards the incomplete event (when the stream ends).
+   */
+  reset (): void {
+    this.buffer = ''
+    this.data = []
+    this.eventRetry = undefined
+    this.eventType = ''
+    this.skipLineFeed = false
+    this.started = false
+  }
+
+  /**
+   * Processes a line, and returns the event if the line is empty.
+   * @param line
+   */
+  private parseLine (line: string): SseEvent | undefined {
+    if (line === '') {
+      return this.dispatch()
+    }
+    // Ignore comments.
+    if (line.startsWith(':')) {
+      return undefined
+    }
+    const index = line.indexOf(':')
+    const field = index === -1 ? line : line.substring(0, index)
+    let value = index === -1 ? '' : line.substring(index + 1)
+
+    if (value.startsWith(' ')) {
+      value = value.substring(1)
+    }
+
+    if (field === 'data') {
+      this.data.push(value)
+    } else if (field === 'event') {
+      this.eventType = value
+    } else if (field === 'id' && !value.includes('\0')) {
+      this.lastEventId = value
+    } else if (field === 'retry' && /^\d+$/.test(value)) {
+      this.retry = Number(value)
+      this.eventRetry = this.retry
+    }
+    return undefined
+  }
+
+  /**
+   * Returns the event of the fields received, if it contains data.
+   */
+  private dispatch (): SseEvent | undefined {
+    const { data, eventRetry, eventType } = this
+    this.data = []
+    this.eventRetry = undefined
+    this.eventType = ''
+
+    if (data.length === 0) {
+      return undefined
+    }
+    return {
+      data: data.join('\n'),
+      event: eventType || 'message',
+      id: this.lastEventId,
+      ...(eventRetry != null && { retry: eventRetry })
+    }
+  }
+}
+
+/**
+ * Checks if the connection can be opened again after an error.
+ * @param error
+ */
+function isConnectionError (error: unknown): boolean {
+  // Fetch API rejects with a TypeError when the stream is interrupted.
+  return error instanceof FetchNetworkError ||
+    error instanceof FetchTimeoutError ||
+    error instanceof TypeError
+}
+
+/**
+ * Returns the events of a stream.
+ * @param stream
+ * @param parser
+ */
+async function * readEvents (stream: ReadableStream<Uint8Array>, parser: SseParser): AsyncGenerator<SseEvent, void, undefined> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+
+      if (done) {
+        break
+      }
+      yield * parser.parse(decoder.decode(value, { stream: true }))
+    }
+  } finally {
+    parser.reset()
+    // Close the connection if the iteration is stopped.
+    await reader.cancel().catch(() => undefined)
+  }
+}
+
+/**
+ * Returns the events of a Server-Sent Events endpoint,
+ * and reconnects with the Last-Event-ID header when the connection is closed or lost.
+ * Stops without error when the signal is aborted, or when the server responds with status 204.
+ * @param execute
+ * @param request
+ * @param options
+ */
+export async function * streamEvents (
+  execute: (url: string, options: FetchOptions) => Promise<FetchClientResponse<ReadableStream<Uint8Array> | null>>,
+  request: { options: FetchOptions, url: string },
+  options?: SseOptions
+): AsyncGenerator<SseEvent, void, undefined> {
+  const { lastEventId, maxRetries = Infinity, onOpen, reconnect = true, retryDelay = 3000 } = options ?? {}
+  const { signal } = request.options
+  const parser = new SseParser(lastEventId)
+  // A stream body cannot be sent twice.
+  const canReconnect = reconnect && !(request.options.body instanceof ReadableStream)
+  let retries = 0
+
+  for (;;) {
+    const headers: Record<string, string> = {}
+    const init = new Headers(request.options.headers)
+    init.set('accept', 'text/event-stream')
+    init.set('cache-control', 'no-cache')
+
+    if (parser.lastEventId) {
+      init.set('last-event-id', parser.lastEventId)
+    }
+    // Request options headers are merged as a plain object.
+    init.forEach((value, name) => {
+      headers[name] = value
+    })
+
+    try {
+      const response = await execute(request.url, {
+        ...request.options,
+        cache: 'no-store',
+        dedupe: false,
+        headers,
+        responseType: 'stream'
+      })
+
+      // The server asks the client to stop reconnecting.
+      if (response.status === 204 || !response.body) {
+        await response.body?.cancel()
+        return
+      }
+      const contentType = response.headers['content-type'] ?? ''
+
+      if (!contentType.startsWith('text/event-stream')) {
+        await response.body.cancel()
+        throw new FetchError(`Invalid content type "${contentType}", expected "text/event-stream"`, {
+          method: request.options.method?.toUpperCase() ?? 'GET',
+          url: response.original.url
+        })
+      }
+      onOpen?.(response)
+      retries = 0
+
+      yield * readEvents(response.body, parser)
+    } catch (error) {
+      if (signal?.aborted) {
+        return
+      }
+      if (!canReconnect || retries >= maxRetries || !isConnectionError(error)) {
+        throw error
+      }
+    }
+
+    if (signal?.aborted || !canReconnect || retries >= maxRetries) {
+      return
+    }
+    retries++
+
+    try {
+      await sleep(parser.retry ?? retryDelay, signal)
+    } catch {
+      return
+    }
+  }
+}
@@ -0,0 +1,57 @@
+export type Timeout = {
+  /**
+   * Stops the timer, the signal stays attached to the parent signal.
+   */
+  clear: () => void
+  /**
+   * Stops the timer and detaches the signal from the parent signal.
+   */
+  dispose: () => void
+  /**
+   * The signal aborted when the delay is exceeded or when the parent signal is aborted.
+   */
+  signal: AbortSignal
+  /**
+   * Tells if the delay has been exceeded.
+   */
+  readonly timedOut: boolean
+}
+
+/**
+ * Creates a signal that is aborted after a delay or when the parent signal is aborted.
+ * @param ms
+ * @param parent
+ */
+export function createTimeout (ms: number, parent?: AbortSignal | null): Timeout {
+  const controller = new AbortController()
+  let timedOut = false
+
+  const onAbort = () => {
+    clearTimeout(timer)
+    controller.abort(parent?.reason)
+  }
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort(new DOMException('The operation timed out.', 'TimeoutError'))
+  }, ms)
+
+  if (parent?.aborted) {
+    onAbort()
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true })
+  }
+
+  return {
+    clear: () => {
+      clearTimeout(timer)
+    },
+    dispose: () => {
+      clearTimeout(timer)
+      parent?.removeEventListener('abort', onAbort)
+    },
+    signal: controller.signal,
+    get timedOut () {
+      return timedOut
+    }
+  }
+}
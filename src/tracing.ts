@@ -0,0 +1,110 @@
+export type TraceAttributes = Record<string, string | number | boolean | undefined>
+
+export type TraceSpanContext = {
+  /**
+   * The identifier of the span (16 hex characters).
+   */
+  spanId: string
+  /**
+   * The trace flags (ex: 1 if sampled).
+   */
+  traceFlags: number
+  /**
+   * The identifier of the trace (32 hex characters).
+   */
+  traceId: string
+  /**
+   * The vendor-specific trace state.
+   */
+  traceState?: {
+    serialize (): string
+  }
+}
+
+/**
+ * A span compatible with OpenTelemetry spans.
+ */
+export type TraceSpan = {
+  end (): void
+  recordException (exception: Error | string): void
+  setAttribute (key: string, value: string | number | boolean): unknown
+  setStatus (status: { code: number, message?: string }): unknown
+  spanContext (): TraceSpanContext
+}
+
+/**
+ * A tracer compatible with OpenTelemetry tracers (ex: trace.getTracer('http-client')).
+ */
+export type Tracer = {
+  startSpan (name: string, options?: { attributes?: TraceAttributes, kind?: number }): TraceSpan
+}
+
+/**
+ * The kind of client spans (SpanKind.CLIENT).
+ */
+export const SPAN_KIND_CLIENT = 2
+
+/**
+ * The status of failed spans (SpanStatusCode.ERROR).
+ */
+export const SPAN_STATUS_ERROR = 2
+
+/**
+ * Returns the traceparent header of a span (W3C Trace Context),
+ * or undefined if the span is not valid (ex: a span of a no-op tracer).
+ * @param context
+ */
+export function formatTraceparent (context: TraceSpanContext): string | undefined {
+  const { spanId, traceFlags, traceId } = context
+
+  if (!/^[0-9a-f]{32}$/.test(traceId) || /^0+$/.test(traceId) ||
+    !/^[0-9a-f]{16}$/.test(spanId) || /^0+$/.test(spanId)) {
+    return undefined
+  }
+  return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`
+}
+
+/**
+ * Returns headers containing the trace context of a span (traceparent and tracestate).
+ * @param headers
+ * @param span
+ */
+export function injectTraceContext (headers: HeadersInit | undefined, span: TraceSpan): Headers {
+  const context = span.spanContext()
+  const traceparent = formatTraceparent(context)
+  const result = new Headers(headers)
+
+  if (traceparent) {
+    result.set('traceparent', traceparent)
+    const tracestate = context.traceState?.serialize()
+
+    if (tracestate) {
+      result.set('tracestate', tracestate)
+    }
+  }
+  return result
+}
+
+/**
+ * Returns the attributes of the span of a request (OpenTelemetry HTTP semantic conventions).
+ * @param method
+ * @param url
+ * @param attempt
+ */
+export function getRequestAttributes (method: string, url: string, attempt: number): TraceAttributes {
+  const attributes: TraceAttributes = {
+    'http.request.method': method,
+    'url.full': url
+  }
+  try {
+    const { hostname, port, protocol } = new URL(url)
+    attributes['server.address'] = hostname
+    attributes['server.port'] = port ? Number(port) : protocol === 'https:' ? 443 : 80
+  } catch {
+    // Ignore relative URLs.
+  }
+  if (attempt > 1) {
+    attributes['http.request.resend_count'] = attempt - 1
+  }
+  return attributes
+}
@@ -0,0 +1,66 @@
+import { describe, expectTypeOf, it } from 'vitest'
+import { createApi, FetchClient, FetchClientResponse, StandardSchemaV1, typed } from '../src'
+
+type User = {
+  id: number
+  name: string
+}
+
+declare const userSchema: StandardSchemaV1<unknown, User>
+
+const api = createApi(new FetchClient(), {
+  users: {
+    create: { body: typed<Omit<User, 'id'>>(), method: 'POST', path: '/users', response: typed<User>() },
+    get: { method: 'GET', path: '/users/:id', response: userSchema },
+    list: { method: 'GET', path: '/users', query: typed<{ page?: number } | undefined>() },
+    search: { method: 'GET', path: '/users/search', query: typed<{ q: string }>() },
+    remove: { method: 'DELETE', path: '/users/{id}' }
+  },
+  version: { method: 'GET', path: '/version', response: typed<string>() }
+})
+
+describe('createApi()', () => {
+  it('should require path params', () => {
+    api.users.get({ id: 1 })
+    api.users.remove({ id: '1' })
+
+    // @ts-expect-error arguments are required
+    api.users.get()
+    // @ts-expect-error the param is missing
+    api.users.get({})
+    // @ts-expect-error the param has another name
+    api.users.remove({ userId: 1 })
+  })
+
+  it('should require the body', () => {
+    api.users.create({ body: { name: 'john' } })
+
+    // @ts-expect-error arguments are required
+    api.users.create()
+    // @ts-expect-error the body is not valid
+    api.users.create({ body: { name: 1 } })
+  })
+
+  it('should require the query if it is required', () => {
+    api.users.list()
+    api.users.list({ query: { page: 2 } })
+    api.users.search({ query: { q: 'john' } })
+
+    // @ts-expect-error arguments are required
+    api.users.search()
+    // @ts-expect-error the query is not valid
+    api.users.list({ query: { page: '2' } })
+  })
+
+  it('should accept request options', () => {
+    api.version(undefined, { headers: { 'x-version': '1' } })
+    api.users.get({ id: 1 }, { timeout: 1000 })
+  })
+
+  it('should return the type of the response body', () => {
+    expectTypeOf(api.users.create).returns.resolves.toEqualTypeOf<FetchClientResponse<User>>()
+    expectTypeOf(api.users.get).returns.resolves.toEqualTypeOf<FetchClientResponse<User>>()
+    expectTypeOf(api.users.remove).returns.resolves.toEqualTypeOf<FetchClientResponse<unknown>>()
+    expectTypeOf(api.version).returns.resolves.toEqualTypeOf<FetchClientResponse<string>>()
+  })
+})
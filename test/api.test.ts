@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createApi,
+  FetchClient,
+  FetchResponseError,
+  FetchValidationError,
+  MockAdapter,
+  StandardSchemaV1,
+  typed
+} from '../src'
+
+type User = {
+  id: number
+  name: string
+}
+
+const userSchema: StandardSchemaV1<unknown, User> = {
+  '~standard': {
+    validate: (value) => (typeof (value as User)?.id === 'number'
+      ? { value: value as User }
+      : { issues: [{ message: 'Invalid user' }] }),
+    vendor: 'test',
+    version: 1
+  }
+}
+
+const mock = new MockAdapter()
+  .on('GET', '/users', (request) => ({ body: { query: request.query } }))
+  .on('GET', '/users/:id', (request) => ({ body: { id: Number(request.params.id), name: 'john' } }))
+  .on('POST', '/users', (request) => ({ body: { ...request.body as object, id: 2 }, status: 201 }))
+  .on('DELETE', '/users/:id', { status: 404 })
+  .on('GET', '/invalid', { body: { name: 'john' } })
+  .on('GET', '/version', (request) => ({
+    body: request.headers.get('x-version') ?? '',
+    headers: { 'content-type': 'text/plain' }
+  }))
+
+const client = new FetchClient({
+  baseUrl: 'https://api.example.com',
+  fetch: mock.fetch,
+  responseType: 'json'
+})
+
+const api = createApi(client, {
+  users: {
+    create: { body: typed<Omit<User, 'id'>>(), method: 'POST', path: '/users', response: typed<User>() },
+    get: { method: 'GET', path: '/users/:id', response: userSchema },
+    list: { method: 'GET', path: '/users', query: typed<{ page?: number } | undefined>() },
+    remove: { method: 'DELETE', path: '/users/{id}' }
+  },
+  invalid: { method: 'GET', path: '/invalid', response: userSchema },
+  version: {
+    method: 'GET',
+    options: { headers: { 'x-version': '1' }, responseType: 'text' },
+    path: '/version',
+    response: typed<string>()
+  }
+})
+
+describe('createApi()', () => {
+  it('should replace path params', async () => {
+    const resp = await api.users.get({ id: 1 })
+    expect(resp.body).toStrictEqual({ id: 1, name: 'john' })
+    expect(resp.body.name.toUpperCase()).toBe('JOHN')
+  })
+
+  it('should send the body', async () => {
+    const resp = await api.users.create({ body: { name: 'jane' } })
+    expect(resp.status).toBe(201)
+    expect(resp.body).toStrictEqual({ id: 2, name: 'jane' })
+  })
+
+  it('should send query params', async () => {
+    expect((await api.users.list({ query: { page: 2 } })).body).toStrictEqual({ query: { page: '2' } })
+    expect((await api.users.list()).body).toStrictEqual({ query: {} })
+  })
+
+  it('should use endpoint options and request options', async () => {
+    expect((await api.version()).body).toBe('1')
+    expect((await api.version({}, { headers: { 'x-version': '2' } })).body).toBe('2')
+  })
+
+  it('should throw client errors', async () => {
+    await expect(api.users.remove({ id: 1 })).rejects.toThrow(FetchResponseError)
+    await expect(api.invalid()).rejects.toThrow(FetchValidationError)
+  })
+})
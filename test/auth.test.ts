@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { AuthManager, basicAuth, FetchClient, FetchResponseError } from '../src'
+import server, { paths } from './server'
+
+const port = 8900
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+function wait (ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('basicAuth()', () => {
+  it('should return base64 credentials', () => {
+    expect(basicAuth('user', 'pass')).toBe('dXNlcjpwYXNz')
+  })
+
+  it('should support UTF-8 characters', () => {
+    expect(basicAuth('jalik', 'été')).toBe(Buffer.from('jalik:été').toString('base64'))
+  })
+})
+
+describe('auth', () => {
+  it('should add a Bearer token to requests', async () => {
+    const client = new FetchClient({
+      auth: { getToken: () => 'abc' },
+      baseUrl: serverUrl,
+      responseType: 'json'
+    })
+    const resp = await client.get(paths.protected, { params: { expected: 'Bearer abc' } })
+    expect(resp.body.authorization).toBe('Bearer abc')
+  })
+
+  it('should support Basic auth', async () => {
+    const client = new FetchClient({
+      auth: { getToken: () => basicAuth('user', 'pass'), scheme: 'Basic' },
+      baseUrl: serverUrl,
+      responseType: 'json'
+    })
+    const resp = await client.get(paths.protected, { params: { expected: 'Basic dXNlcjpwYXNz' } })
+    expect(resp.status).toBe(200)
+  })
+
+  it('should support custom header and format', async () => {
+    const client = new FetchClient({
+      auth: { format: (token) => `key=${token}`, getToken: () => 'abc', header: 'x-api-key' },
+      baseUrl: serverUrl,
+      responseType: 'json'
+    })
+    const resp = await client.get(paths.protected, { params: { expected: 'key=abc', header: 'x-api-key' } })
+    expect(resp.body.authorization).toBe('key=abc')
+  })
+
+  it('should not add credentials if auth is false', async () => {
+    const client = new FetchClient({
+      auth: { getToken: () => 'abc' },
+      baseUrl: serverUrl,
+      responseType: 'json'
+    })
+    await expect(client.get(paths.protected, { auth: false, params: { expected: 'Bearer abc' } }))
+      .rejects.toThrow(FetchResponseError)
+  })
+
+  it('should refresh the token once for concurrent unauthorized requests', async () => {
+    const refresh = vi.fn(async () => {
+      await wait(50)
+      return 'new'
+    })
+    const client = new FetchClient({
+      auth: { getToken: () => 'old', refresh },
+      baseUrl: serverUrl,
+      responseType: 'json'
+    })
+    const params = { expected: 'Bearer new' }
+    const responses = await Promise.all([
+      client.get(paths.protected, { params }),
+      client.get(paths.protected, { params }),
+      client.post(paths.protected, { a: 1 }, { params })
+    ])
+    expect(refresh).toHaveBeenCalledTimes(1)
+    expect(responses.map((r) => r.status)).toStrictEqual([200, 200, 200])
+    expect(responses[2].body.data).toStrictEqual({ a: 1 })
+
+    // Next requests use the new token.
+    await client.get(paths.protected, { params })
+    expect(refresh).toHaveBeenCalledTimes(1)
+  })
+
+  it('should replay the request only once', async () => {
+    const refresh = vi.fn(() => 'still-invalid')
+    const client = new FetchClient({
+      auth: { getToken: () => 'old', refresh },
+      baseUrl: serverUrl,
+      responseType: 'json'
+    })
+    const error = await client.get(paths.protected, { params: { expected: 'Bearer new' } })
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(error.response.status).toBe(401)
+    expect(refresh).toHaveBeenCalledTimes(1)
+  })
+
+  it('should refresh the token before it expires', async () => {
+    const refresh = vi.fn(() => ({ expiresAt: Date.now() + 60000, value: 'new' }))
+    const client = new FetchClient({
+      auth: { getToken: () => ({ expiresAt: Date.now() + 1000, value: 'old' }), refresh },
+      baseUrl: serverUrl,
+      responseType: 'json'
+    })
+    const resp = await client.get(paths.protected, { params: { expected: 'Bearer new' } })
+    expect(resp.status).toBe(200)
+    expect(refresh).toHaveBeenCalledTimes(1)
+    expect(refresh).toHaveBeenCalledWith(expect.objectContaining({ value: 'old' }))
+  })
+
+  it('should reject waiting requests and call onLogout if refresh fails', async () => {
+    const onLogout = vi.fn()
+    const refreshError = new Error('refresh failed')
+    const client = new FetchClient({
+      auth: {
+        getToken: () => 'old',
+        onLogout,
+        refresh: async () => {
+          await wait(20)
+          throw refreshError
+        }
+      },
+      baseUrl: serverUrl,
+      responseType: 'json'
+    })
+    const params = { expected: 'Bearer new' }
+    const results = await Promise.allSettled([
+      client.get(paths.protected, { params }),
+      client.get(paths.protected, { params })
+    ])
+    expect(results.map((r) => r.status)).toStrictEqual(['rejected', 'rejected'])
+    expect(results.map((r) => (r as PromiseRejectedResult).reason)).toStrictEqual([refreshError, refreshError])
+    expect(onLogout).toHaveBeenCalledTimes(1)
+    expect(onLogout).toHaveBeenCalledWith(refreshError)
+  })
+
+  it('should use the token set on an AuthManager', async () => {
+    const auth = new AuthManager({})
+    const client = new FetchClient({ auth, baseUrl: serverUrl, responseType: 'json' })
+    auth.setToken('logged')
+    const resp = await client.get(paths.protected, { params: { expected: 'Bearer logged' } })
+    expect(resp.status).toBe(200)
+
+    auth.clearToken()
+    await expect(client.get(paths.protected, { params: { expected: 'Bearer logged' } }))
+      .rejects.toThrow(FetchResponseError)
+  })
+})
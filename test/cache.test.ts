@@ -0,0 +1,281 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FetchClient, FetchError, MemoryCacheStore, parseCacheControl, StorageCacheStore, StorageLike } from '../src'
+import server, { paths } from './server'
+
+const port = 8894
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+type CacheBody = {
+  hits: number
+  notModified: number
+}
+
+let counter = 0
+
+function cacheUrl (params: Record<string, string>): string {
+  const query = new URLSearchParams({ key: String(counter++), ...params })
+  return `${paths.cache}?${query}`
+}
+
+function wait (ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+class MapStorage implements StorageLike {
+  private readonly items = new Map<string, string>()
+
+  get length (): number {
+    return this.items.size
+  }
+
+  getItem (key: string): string | null {
+    return this.items.get(key) ?? null
+  }
+
+  key (index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null
+  }
+
+  removeItem (key: string): void {
+    this.items.delete(key)
+  }
+
+  setItem (key: string, value: string): void {
+    this.items.set(key, value)
+  }
+}
+
+describe('parseCacheControl(value)', () => {
+  it('should parse directives', () => {
+    expect(parseCacheControl('public, max-age=60, stale-while-revalidate="30"')).toEqual({
+      public: '',
+      'max-age': '60',
+      'stale-while-revalidate': '30'
+    })
+  })
+
+  it('should return an empty object if value is empty', () => {
+    expect(parseCacheControl(undefined)).toEqual({})
+  })
+})
+
+describe('MemoryCacheStore', () => {
+  it('should remove the least recently used entries', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 })
+    const entry = {} as never
+    store.set('a', entry)
+    store.set('b', entry)
+    store.get('a')
+    store.set('c', entry)
+    expect(store.keys()).toEqual(['a', 'c'])
+  })
+})
+
+describe('options.cache', () => {
+  describe('without cache', () => {
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+
+    it('should not cache responses', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      await client.get(url)
+      const resp = await client.get<CacheBody>(url)
+      expect(resp.body.hits).toBe(2)
+    })
+  })
+
+  describe('with cache = true', () => {
+    const client = new FetchClient({ baseUrl: serverUrl, cache: true, responseType: 'json' })
+
+    it('should return fresh cached response', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      await client.get(url)
+      const resp = await client.get<CacheBody>(url)
+      expect(resp.status).toBe(200)
+      expect(resp.body.hits).toBe(1)
+      expect(resp.headers['cache-control']).toBe('max-age=60')
+      expect(resp.original).toBeInstanceOf(Response)
+    })
+
+    it('should return a copy of the cached body', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      const resp = await client.get<CacheBody>(url)
+      resp.body.hits = 10
+      const resp2 = await client.get<CacheBody>(url)
+      resp2.body.hits = 20
+      const resp3 = await client.get<CacheBody>(url)
+      expect(resp3.body.hits).toBe(1)
+    })
+
+    it('should not cache response with no-store', async () => {
+      const url = cacheUrl({ cacheControl: 'no-store' })
+      await client.get(url)
+      const resp = await client.get<CacheBody>(url)
+      expect(resp.body.hits).toBe(2)
+    })
+
+    it('should revalidate stale response using ETag', async () => {
+      const url = cacheUrl({ cacheControl: 'no-cache', etag: 'v1' })
+      await client.get(url)
+      const resp = await client.get<CacheBody>(url)
+      expect(resp.status).toBe(200)
+      expect(resp.body).toEqual({ hits: 1, notModified: 0 })
+
+      const resp2 = await client.get<CacheBody>(url, { cacheMode: 'no-store' })
+      expect(resp2.body).toEqual({ hits: 3, notModified: 1 })
+    })
+
+    it('should return stale response while revalidating', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=0, stale-while-revalidate=60' })
+      await client.get(url)
+      const resp = await client.get<CacheBody>(url)
+      expect(resp.body.hits).toBe(1)
+      await wait(50)
+      const resp2 = await client.get<CacheBody>(url)
+      expect(resp2.body.hits).toBe(2)
+    })
+
+    it('should not use cached response if Vary headers differ', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60', vary: 'accept-language' })
+      await client.get(url, { headers: { 'accept-language': 'en' } })
+      const resp = await client.get<CacheBody>(url, { headers: { 'accept-language': 'fr' } })
+      expect(resp.body.hits).toBe(2)
+      const resp2 = await client.get<CacheBody>(url, { headers: { 'accept-language': 'fr' } })
+      expect(resp2.body.hits).toBe(2)
+    })
+
+    it('should not use cached response if responseType differs', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      await client.get(url)
+      const resp = await client.get<string>(url, { responseType: 'text' })
+      expect(typeof resp.body).toBe('string')
+    })
+
+    it('should invalidate cached response after an unsafe request', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      await client.get(url)
+      await client.post(url, {})
+      const resp = await client.get<CacheBody>(url)
+      expect(resp.body.hits).toBe(2)
+    })
+  })
+
+  describe('with options.cacheMode', () => {
+    const client = new FetchClient({ baseUrl: serverUrl, cache: true, responseType: 'json' })
+
+    it('should ignore cache with "no-store"', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      await client.get(url, { cacheMode: 'no-store' })
+      const resp = await client.get<CacheBody>(url)
+      expect(resp.body.hits).toBe(2)
+    })
+
+    it('should update cache with "reload"', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      await client.get(url)
+      const resp = await client.get<CacheBody>(url, { cacheMode: 'reload' })
+      expect(resp.body.hits).toBe(2)
+      const resp2 = await client.get<CacheBody>(url)
+      expect(resp2.body.hits).toBe(2)
+    })
+
+    it('should revalidate with "no-cache"', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60', etag: 'v1' })
+      await client.get(url)
+      const resp = await client.get<CacheBody>(url, { cacheMode: 'no-cache' })
+      expect(resp.body).toEqual({ hits: 1, notModified: 0 })
+      const resp2 = await client.get<CacheBody>(url, { cacheMode: 'reload' })
+      expect(resp2.body).toEqual({ hits: 3, notModified: 1 })
+    })
+
+    it('should use stale response with "force-cache"', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=0', etag: 'v1' })
+      await client.get(url)
+      const resp = await client.get<CacheBody>(url, { cacheMode: 'force-cache' })
+      expect(resp.body.hits).toBe(1)
+    })
+
+    it('should throw an error with "only-if-cached" if not cached', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      const error = await client.get(url, { cacheMode: 'only-if-cached' }).catch((e) => e)
+      expect(error).toBeInstanceOf(FetchError)
+      expect(error.message).toBe(`No cached response for "${serverUrl}${url}"`)
+      expect(error.method).toBe('GET')
+      expect(error.url).toBe(`${serverUrl}${url}`)
+    })
+  })
+
+  describe('with options.cache.store', () => {
+    const storage = new MapStorage()
+    const client = new FetchClient({
+      baseUrl: serverUrl,
+      cache: { store: new StorageCacheStore(storage) },
+      responseType: 'json'
+    })
+
+    it('should persist responses in store', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      await client.get(url)
+      expect(storage.length).toBe(1)
+      expect(storage.key(0)).toBe(`fetch-client:${serverUrl}${url}`)
+
+      const other = new FetchClient({
+        baseUrl: serverUrl,
+        cache: { store: new StorageCacheStore(storage) },
+        responseType: 'json'
+      })
+      const resp = await other.get<CacheBody>(url)
+      expect(resp.body.hits).toBe(1)
+    })
+
+    it('should not persist bodies that cannot be serialized to JSON', async () => {
+      const url = cacheUrl({ cacheControl: 'max-age=60' })
+      await client.get(url, { responseType: 'blob' })
+      expect(storage.getItem(`fetch-client:${serverUrl}${url}`)).toBeNull()
+
+      const resp = await client.get<Blob>(url, { responseType: 'blob' })
+      expect(resp.body).toBeInstanceOf(Blob)
+      expect(JSON.parse(await resp.body.text()).hits).toBe(2)
+    })
+  })
+})
+
+describe('invalidateCache(prefix)', () => {
+  const client = new FetchClient({ baseUrl: serverUrl, cache: true, responseType: 'json' })
+
+  it('should remove cached responses starting with prefix', async () => {
+    const url = cacheUrl({ cacheControl: 'max-age=60' })
+    await client.get(url)
+    await client.invalidateCache(paths.cache)
+    const resp = await client.get<CacheBody>(url)
+    expect(resp.body.hits).toBe(2)
+  })
+
+  it('should not remove other cached responses', async () => {
+    const url = cacheUrl({ cacheControl: 'max-age=60' })
+    await client.get(url)
+    await client.invalidateCache('/other')
+    const resp = await client.get<CacheBody>(url)
+    expect(resp.body.hits).toBe(1)
+  })
+
+  it('should remove all cached responses without prefix', async () => {
+    const url = cacheUrl({ cacheControl: 'max-age=60' })
+    await client.get(url)
+    await client.invalidateCache()
+    const resp = await client.get<CacheBody>(url)
+    expect(resp.body.hits).toBe(2)
+  })
+})
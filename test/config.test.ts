@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { AuthManager, FetchClient, mergeConfig, mergeHeaders, MockAdapter } from '../src'
+
+describe('mergeHeaders()', () => {
+  it('should merge headers with case-insensitive names', () => {
+    expect(mergeHeaders({ Accept: 'text/html', 'x-a': '1' }, new Headers({ accept: 'application/json' })))
+      .toStrictEqual({ 'x-a': '1', accept: 'application/json' })
+  })
+})
+
+describe('mergeConfig()', () => {
+  it('should merge objects, append arrays and replace other values', () => {
+    const parent = new FetchClient({
+      baseUrl: 'https://a.example.com',
+      params: { lang: 'en' },
+      transformRequest: [(url, options) => options]
+    }).getConfig()
+    const config = mergeConfig(parent, {
+      baseUrl: 'https://b.example.com',
+      params: { tenant: 'x' },
+      transformRequest: [(url, options) => options]
+    })
+    expect(config.baseUrl).toBe('https://b.example.com')
+    expect(config.params).toStrictEqual({ lang: 'en', tenant: 'x' })
+    expect(config.transformRequest).toHaveLength(2)
+  })
+})
+
+describe('extend()', () => {
+  const mock = new MockAdapter()
+    .on('*', '*', (request) => ({
+      body: {
+        headers: Object.fromEntries(request.headers),
+        url: request.url
+      }
+    }))
+  const calls: string[] = []
+  const parent = new FetchClient({
+    baseUrl: 'https://api.example.com',
+    fetch: mock.fetch,
+    headers: { 'x-client': 'parent', 'x-version': '1' },
+    middlewares: [(context, next) => {
+      calls.push('parent')
+      return next()
+    }],
+    options: { headers: { 'x-option': 'parent' } },
+    responseType: 'json',
+    transformResponse: [(body) => ({ ...body, parent: true })]
+  })
+
+  it('should inherit and merge the parent config', async () => {
+    calls.length = 0
+    const child = parent.extend({
+      baseUrl: 'https://users.example.com',
+      headers: { 'X-Client': 'child' },
+      middlewares: [(context, next) => {
+        calls.push('child')
+        return next()
+      }],
+      transformResponse: [(body) => ({ ...body, child: true })]
+    })
+    const resp = await child.get('/users')
+    expect(resp.body.url).toBe('https://users.example.com/users')
+    expect(resp.body.headers).toStrictEqual({
+      'x-client': 'child',
+      'x-option': 'parent',
+      'x-version': '1'
+    })
+    expect(resp.body.parent).toBe(true)
+    expect(resp.body.child).toBe(true)
+    expect(calls).toStrictEqual(['parent', 'child'])
+  })
+
+  it('should replace the response type', async () => {
+    const client = new FetchClient({ fetch: mock.fetch, responseType: 'json' })
+    const resp = await client.extend({ responseType: 'text' }).get('https://api.example.com/users')
+    expect(typeof resp.body).toBe('string')
+  })
+
+  it('should not modify the parent', async () => {
+    const child = parent.extend({ headers: { 'x-client': 'child' } })
+    child.setHeader('x-child', '1')
+    child.use((context, next) => next())
+    expect(parent.getConfig().headers).toStrictEqual({ 'x-client': 'parent', 'x-version': '1' })
+    expect(parent.getConfig().middlewares).toHaveLength(1)
+  })
+
+  it('should share the auth manager unless replaced', async () => {
+    const auth = new AuthManager({ getToken: () => 'parent' })
+    const client = new FetchClient({ auth, fetch: mock.fetch, responseType: 'json' })
+    const child = client.extend({ baseUrl: 'https://api.example.com' })
+    expect(child.getConfig().auth).toBe(auth)
+    auth.setToken('updated')
+    expect((await child.get('/me')).body.headers.authorization).toBe('Bearer updated')
+    const other = client.extend({ auth: { getToken: () => 'other' }, baseUrl: 'https://api.example.com' })
+    expect((await other.get('/me')).body.headers.authorization).toBe('Bearer other')
+  })
+})
+
+describe('getConfig()', () => {
+  it('should return a copy of the config', () => {
+    const client = new FetchClient({ headers: { a: '1' }, timeout: 1000 })
+    const config = client.getConfig()
+    expect(config.timeout).toBe(1000)
+    ;(config.headers as Record<string, string>).b = '2'
+    expect(client.getConfig().headers).toStrictEqual({ a: '1' })
+  })
+})
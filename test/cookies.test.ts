@@ -0,0 +1,214 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { CookieJar, FetchClient, parseSetCookie } from '../src'
+import server, { paths } from './server'
+
+const port = 8901
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+describe('parseSetCookie()', () => {
+  const now = Date.UTC(2024, 0, 1)
+
+  it('should parse name, value and attributes', () => {
+    expect(parseSetCookie('sid=abc; Path=/api; Secure; HttpOnly; SameSite=Lax', 'https://example.com/login', now))
+      .toStrictEqual({
+        createdAt: now,
+        domain: 'example.com',
+        hostOnly: true,
+        httpOnly: true,
+        name: 'sid',
+        path: '/api',
+        sameSite: 'Lax',
+        secure: true,
+        value: 'abc'
+      })
+  })
+
+  it('should use the default path of the request', () => {
+    expect(parseSetCookie('a=1', 'https://example.com/api/users/1', now)?.path).toBe('/api/users')
+    expect(parseSetCookie('a=1; Path=relative', 'https://example.com/login', now)?.path).toBe('/')
+  })
+
+  it('should give precedence to Max-Age over Expires', () => {
+    const cookie = parseSetCookie('a=1; Expires=Wed, 21 Oct 2015 07:28:00 GMT; Max-Age=60', 'https://example.com', now)
+    expect(cookie?.expiresAt).toBe(now + 60000)
+    expect(parseSetCookie('a=1; Expires=Wed, 21 Oct 2015 07:28:00 GMT', 'https://example.com', now)?.expiresAt)
+      .toBe(Date.UTC(2015, 9, 21, 7, 28))
+  })
+
+  it('should accept a domain matching the request host', () => {
+    const cookie = parseSetCookie('a=1; Domain=.example.com', 'https://api.example.com', now)
+    expect(cookie?.domain).toBe('example.com')
+    expect(cookie?.hostOnly).toBe(false)
+  })
+
+  it('should ignore cookie with a domain not matching the request host', () => {
+    expect(parseSetCookie('a=1; Domain=other.com', 'https://example.com', now)).toBeUndefined()
+  })
+
+  it('should ignore cookie with a domain that is a public suffix', () => {
+    expect(parseSetCookie('sid=1; Domain=com', 'https://api.evil.com', now)).toBeUndefined()
+    expect(parseSetCookie('sid=1; Domain=.co.uk', 'https://evil.co.uk', now)).toBeUndefined()
+    expect(parseSetCookie('sid=1; Domain=github.io', 'https://evil.github.io', now)).toBeUndefined()
+  })
+
+  it('should keep cookie host-only if the domain is a public suffix equal to the host', () => {
+    const cookie = parseSetCookie('sid=1; Domain=localhost', 'http://localhost:3000', now)
+    expect(cookie?.domain).toBe('localhost')
+    expect(cookie?.hostOnly).toBe(true)
+  })
+
+  it('should ignore cookie without name', () => {
+    expect(parseSetCookie('invalid', 'https://example.com', now)).toBeUndefined()
+    expect(parseSetCookie('=1', 'https://example.com', now)).toBeUndefined()
+  })
+})
+
+describe('CookieJar', () => {
+  it('should return cookies matching domain and path', () => {
+    const jar = new CookieJar()
+    jar.setCookie('host=1', 'https://example.com/')
+    jar.setCookie('domain=2; Domain=example.com', 'https://example.com/')
+    jar.setCookie('api=3; Path=/api', 'https://example.com/')
+    expect(jar.getCookieHeader('https://example.com/api/users')).toBe('api=3; host=1; domain=2')
+    expect(jar.getCookieHeader('https://example.com/apis')).toBe('host=1; domain=2')
+    expect(jar.getCookieHeader('https://sub.example.com/')).toBe('domain=2')
+    expect(jar.getCookieHeader('https://other.com/')).toBe('')
+  })
+
+  it('should not send cookies of a public suffix to other sites', () => {
+    const jar = new CookieJar()
+    jar.setCookie('sid=secret; Domain=com', 'https://api.evil.com/')
+    expect(jar.getCookieHeader('https://bank.com/')).toBe('')
+    expect(jar.getCookieHeader('https://api.evil.com/')).toBe('')
+  })
+
+  it('should send secure cookies only over HTTPS', () => {
+    const jar = new CookieJar()
+    jar.setCookie('a=1; Secure', 'https://example.com/')
+    expect(jar.getCookieHeader('https://example.com/')).toBe('a=1')
+    expect(jar.getCookieHeader('http://example.com/')).toBe('')
+  })
+
+  it('should replace and remove cookies', () => {
+    const jar = new CookieJar()
+    jar.setCookie('a=1', 'https://example.com/')
+    jar.setCookie('a=2', 'https://example.com/')
+    expect(jar.getCookieHeader('https://example.com/')).toBe('a=2')
+    jar.setCookie('a=; Max-Age=0', 'https://example.com/')
+    expect(jar.getCookieHeader('https://example.com/')).toBe('')
+  })
+
+  it('should ignore expired cookies', () => {
+    const jar = new CookieJar([{
+      createdAt: 0,
+      domain: 'example.com',
+      expiresAt: Date.now() - 1000,
+      hostOnly: true,
+      httpOnly: false,
+      name: 'a',
+      path: '/',
+      secure: false,
+      value: '1'
+    }])
+    expect(jar.getCookies('https://example.com/')).toStrictEqual([])
+  })
+
+  it('should be serializable and restorable', () => {
+    const jar = new CookieJar()
+    jar.setCookie('a=1; Max-Age=60', 'https://example.com/')
+    jar.setCookie('b=2', 'https://example.com/')
+    const restored = CookieJar.fromJSON(JSON.stringify(jar))
+    expect(restored.getCookieHeader('https://example.com/')).toBe('a=1; b=2')
+    expect(restored.toJSON()).toStrictEqual(jar.toJSON())
+  })
+})
+
+describe('cookieJar', () => {
+  it('should send cookies received in previous responses', async () => {
+    const jar = new CookieJar()
+    const client = new FetchClient({ baseUrl: serverUrl, cookieJar: jar, responseType: 'json' })
+    const resp = await client.get(`${paths.cookies}/login`, { params: { set: ['sid=abc; HttpOnly', 'lang=en'] } })
+    expect(resp.cookies).toStrictEqual(['sid=abc; HttpOnly', 'lang=en'])
+
+    const resp2 = await client.get(`${paths.cookies}/me`)
+    expect(resp2.body.cookie).toBe('sid=abc; lang=en')
+  })
+
+  it('should store and send cookies when following redirects', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, cookieJar: true, responseType: 'json' })
+    const resp = await client.post(`${paths.cookies}/login`, { user: 'jalik' }, {
+      params: { redirect: `${paths.cookies}/home`, set: 'sid=abc' }
+    })
+    expect(resp.body.cookie).toBe('sid=abc')
+    // 302 after POST changes the method to GET.
+    expect(resp.body.method).toBe('GET')
+    expect(resp.redirected).toBe(true)
+    expect(resp.original.url).toBe(`${serverUrl}${paths.cookies}/home`)
+  })
+
+  it('should keep the method when following 307 redirects', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, cookieJar: true, responseType: 'json' })
+    const resp = await client.put(`${paths.cookies}/a`, { a: 1 }, {
+      params: { redirect: `${paths.cookies}/b`, status: 307 }
+    })
+    expect(resp.body.method).toBe('PUT')
+  })
+
+  it('should not follow redirects if redirect is manual', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, cookieJar: true })
+    const resp = await client.get(`${paths.cookies}/a`, {
+      params: { redirect: `${paths.cookies}/b`, set: 'a=1' },
+      redirect: 'manual'
+    }).catch((e) => e.response)
+    expect(resp.status).toBe(302)
+  })
+})
+
+describe('cookieJar without Headers.getSetCookie()', () => {
+  it('should store cookies of the merged Set-Cookie header', async () => {
+    const sent: Array<string | null> = []
+    const client = new FetchClient({
+      cookieJar: true,
+      fetch: async (_url, init) => {
+        sent.push(new Headers(init?.headers).get('cookie'))
+        const headers = new Headers()
+        headers.append('set-cookie', 'sid=abc; Expires=Wed, 21 Oct 2099 07:28:00 GMT; HttpOnly')
+        headers.append('set-cookie', 'lang=en')
+        const response = new Response(null, { headers })
+        Object.defineProperty(response.headers, 'getSetCookie', { value: undefined })
+        return response
+      }
+    })
+    await client.get('https://example.com/login')
+    await client.get('https://example.com/me')
+    expect(sent).toStrictEqual([null, 'sid=abc; lang=en'])
+  })
+})
+
+describe('response.cookies', () => {
+  it('should be undefined if Headers.getSetCookie() is not available', async () => {
+    const client = new FetchClient({
+      fetch: async () => {
+        const response = new Response(null, { headers: { 'set-cookie': 'sid=abc' } })
+        Object.defineProperty(response.headers, 'getSetCookie', { value: undefined })
+        return response
+      }
+    })
+    const resp = await client.get('https://example.com/')
+    expect(resp.status).toBe(200)
+    expect(resp.cookies).toBeUndefined()
+  })
+})
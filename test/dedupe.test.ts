@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FetchClient } from '../src'
+import server, { paths } from './server'
+
+const port = 8895
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+type CounterBody = {
+  hits: number
+}
+
+let counter = 0
+
+function counterUrl (delay = 50): string {
+  return `${paths.counter}?key=dedupe-${counter++}&delay=${delay}`
+}
+
+describe('options.dedupe', () => {
+  describe('without dedupe', () => {
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+
+    it('should send a request for each call', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.get<CounterBody>(url),
+        client.get<CounterBody>(url)
+      ])
+      expect([a.body.hits, b.body.hits].sort()).toEqual([1, 2])
+    })
+  })
+
+  describe('with dedupe = true', () => {
+    const client = new FetchClient({ baseUrl: serverUrl, dedupe: true, responseType: 'json' })
+
+    it('should share a single request between identical requests', async () => {
+      const url = counterUrl()
+      const [a, b, c] = await Promise.all([
+        client.get<CounterBody>(url),
+        client.get<CounterBody>(url),
+        client.get<CounterBody>(url)
+      ])
+      expect(a.body.hits).toBe(1)
+      expect(b.body.hits).toBe(1)
+      expect(c.body.hits).toBe(1)
+      expect(a.body).not.toBe(b.body)
+    })
+
+    it('should allow reading the body of each response independently', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.get<string>(url, { responseType: 'text' }),
+        client.get<ReadableStream>(url, { responseType: 'stream' })
+      ])
+      expect(a.body).toBe('{"hits":1}')
+      expect(await new Response(b.body).text()).toBe('{"hits":1}')
+    })
+
+    it('should not share requests after completion', async () => {
+      const url = counterUrl(0)
+      await client.get(url)
+      const resp = await client.get<CounterBody>(url)
+      expect(resp.body.hits).toBe(2)
+    })
+
+    it('should not share requests with different headers', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.get<CounterBody>(url, { headers: { 'accept-language': 'en' } }),
+        client.get<CounterBody>(url, { headers: { 'accept-language': 'fr' } })
+      ])
+      expect([a.body.hits, b.body.hits].sort()).toEqual([1, 2])
+    })
+
+    it('should not share POST requests', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.post<CounterBody>(url),
+        client.post<CounterBody>(url)
+      ])
+      expect([a.body.hits, b.body.hits].sort()).toEqual([1, 2])
+    })
+
+    it('should not share the request with options.dedupe = false', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.get<CounterBody>(url),
+        client.get<CounterBody>(url, { dedupe: false })
+      ])
+      expect([a.body.hits, b.body.hits].sort()).toEqual([1, 2])
+    })
+
+    it('should not abort the request when only one caller aborts', async () => {
+      const url = counterUrl(100)
+      const controller = new AbortController()
+      const a = client.get<CounterBody>(url, { signal: controller.signal })
+      const b = client.get<CounterBody>(url)
+      setTimeout(() => controller.abort(), 20)
+      await expect(a).rejects.toBeDefined()
+      expect((await b).body.hits).toBe(1)
+    })
+
+    it('should abort the request when all callers abort', async () => {
+      const url = counterUrl(100)
+      const controller = new AbortController()
+      const a = client.get(url, { signal: controller.signal })
+      const b = client.get(url, { signal: controller.signal })
+      setTimeout(() => controller.abort(), 20)
+      await expect(a).rejects.toBeDefined()
+      await expect(b).rejects.toBeDefined()
+      const resp = await client.get<CounterBody>(url.replace('delay=100', 'delay=0'))
+      expect(resp.body.hits).toBe(2)
+    })
+  })
+
+  describe('with dedupe.methods', () => {
+    const client = new FetchClient({ baseUrl: serverUrl, dedupe: { methods: ['POST'] }, responseType: 'json' })
+
+    it('should share requests with the same body', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.post<CounterBody>(url, { query: 'users' }),
+        client.post<CounterBody>(url, { query: 'users' })
+      ])
+      expect(a.body.hits).toBe(1)
+      expect(b.body.hits).toBe(1)
+    })
+
+    it('should not share requests with different bodies', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.post<CounterBody>(url, { query: 'users' }),
+        client.post<CounterBody>(url, { query: 'posts' })
+      ])
+      expect([a.body.hits, b.body.hits].sort()).toEqual([1, 2])
+    })
+
+    it('should not share requests with a body that cannot be compared', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.post<CounterBody>(url, new Blob(['a'], { type: 'text/plain' })),
+        client.post<CounterBody>(url, new Blob(['a'], { type: 'text/plain' }))
+      ])
+      expect([a.body.hits, b.body.hits].sort()).toEqual([1, 2])
+    })
+  })
+
+  describe('with dedupe.key', () => {
+    const client = new FetchClient({
+      baseUrl: serverUrl,
+      dedupe: { key: (context) => context.url.split('?')[0] },
+      responseType: 'json'
+    })
+
+    it('should use the key to identify identical requests', async () => {
+      const url = counterUrl()
+      const [a, b] = await Promise.all([
+        client.get<CounterBody>(url),
+        client.get<CounterBody>(`${url}&other=1`)
+      ])
+      expect(a.body.hits).toBe(1)
+      expect(b.body.hits).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  FetchAbortError,
+  FetchClient,
+  FetchError,
+  FetchNetworkError,
+  FetchParseError,
+  FetchResponseError,
+  FetchTimeoutError,
+  isFetchAbortError,
+  isFetchError,
+  isFetchNetworkError,
+  isFetchParseError,
+  isFetchResponseError,
+  MockAdapter
+} from '../src'
+import server, { paths } from './server'
+
+const port = 8903
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+const client = new FetchClient({
+  baseUrl: serverUrl,
+  responseType: 'json'
+})
+
+/**
+ * Returns the error thrown by a promise.
+ * @param promise
+ */
+async function catchError (promise: Promise<unknown>): Promise<any> {
+  try {
+    await promise
+  } catch (error) {
+    return error
+  }
+  throw new Error('Promise was not rejected')
+}
+
+describe('FetchResponseError', () => {
+  it('should contain the status and the request metadata', async () => {
+    const error = await catchError(client.post(paths.error))
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(error).toBeInstanceOf(FetchError)
+    expect(error.name).toBe('FetchResponseError')
+    expect(error.message).toBe('Request failed with status 400 (Bad Request)')
+    expect(error.method).toBe('POST')
+    expect(error.url).toBe(`${serverUrl}${paths.error}`)
+    expect(error.elapsed).toBeGreaterThanOrEqual(0)
+    expect(error.response.body).toStrictEqual({ error: 'Bad Request' })
+  })
+
+  it('should keep the raw body of error responses that are not JSON', async () => {
+    const mock = new MockAdapter()
+      .on('GET', '/html', { body: '<h1>Error</h1>', headers: { 'content-type': 'text/html' }, status: 502 })
+    const c = new FetchClient({ baseUrl: 'https://api.example.com', fetch: mock.fetch, responseType: 'json' })
+    const error = await catchError(c.get('/html'))
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(error.response.body).toBe('<h1>Error</h1>')
+  })
+})
+
+describe('FetchNetworkError', () => {
+  it('should be thrown when the request cannot be sent', async () => {
+    const error = await catchError(client.get('http://localhost:1/unreachable'))
+    expect(error).toBeInstanceOf(FetchNetworkError)
+    expect(error.cause).toBeInstanceOf(TypeError)
+    expect(error.method).toBe('GET')
+    expect(error.url).toBe('http://localhost:1/unreachable')
+  })
+})
+
+describe('FetchParseError', () => {
+  it('should contain the raw text when the JSON is invalid', async () => {
+    const mock = new MockAdapter()
+      .on('GET', '/invalid', { body: '{"id":', headers: { 'content-type': 'application/json' } })
+    const c = new FetchClient({ baseUrl: 'https://api.example.com', fetch: mock.fetch, responseType: 'json' })
+    const error = await catchError(c.get('/invalid'))
+    expect(error).toBeInstanceOf(FetchParseError)
+    expect(error.cause).toBeInstanceOf(SyntaxError)
+    expect(error.status).toBe(200)
+    expect(error.text).toBe('{"id":')
+    expect(error.url).toBe('https://api.example.com/invalid')
+  })
+})
+
+describe('FetchAbortError', () => {
+  it('should be thrown when the request is aborted', async () => {
+    const controller = new AbortController()
+    const promise = client.get(`${paths.slow}?delay=200`, { signal: controller.signal })
+    setTimeout(() => controller.abort('cancelled'), 20)
+    const error = await catchError(promise)
+    expect(error).toBeInstanceOf(FetchAbortError)
+    expect(error.reason).toBe('cancelled')
+    expect(error.url).toBe(`${serverUrl}${paths.slow}?delay=200`)
+  })
+
+  it('should be thrown when the request is aborted while waiting for a retry', async () => {
+    const controller = new AbortController()
+    const promise = client.get(paths.error, {
+      retry: { attempts: 2, delay: 1000, statusCodes: [400] },
+      signal: controller.signal
+    })
+    setTimeout(() => controller.abort(), 50)
+    expect(await catchError(promise)).toBeInstanceOf(FetchAbortError)
+  })
+
+  it('should not replace timeout errors', async () => {
+    const error = await catchError(client.get(`${paths.slow}?delay=200`, { timeout: 20 }))
+    expect(error).toBeInstanceOf(FetchTimeoutError)
+    expect(error).toBeInstanceOf(FetchError)
+  })
+})
+
+describe('type guards', () => {
+  it('should check the type of errors', async () => {
+    const error = await catchError(client.get(paths.error))
+    expect(isFetchError(error)).toBe(true)
+    expect(isFetchResponseError(error)).toBe(true)
+    expect(isFetchAbortError(error)).toBe(false)
+    expect(isFetchNetworkError(error)).toBe(false)
+    expect(isFetchParseError(error)).toBe(false)
+    expect(isFetchError(new Error())).toBe(false)
+  })
+})
+
+describe('with options.validateStatus', () => {
+  it('should not throw an error if the status is valid', async () => {
+    const resp = await client.get(paths.error, { validateStatus: (status) => status < 500 })
+    expect(resp.status).toBe(400)
+    expect(resp.body).toStrictEqual({ error: 'Bad Request' })
+  })
+
+  it('should throw an error if the status is not valid', async () => {
+    const c = new FetchClient({ baseUrl: serverUrl, validateStatus: (status) => status === 201 })
+    const error = await catchError(c.get(paths.noBody))
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(error.response.status).toBe(204)
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest'
+import {
+  FetchClient,
+  FetchEventEmitter,
+  FetchEventMap,
+  FetchEventName,
+  FetchNetworkError,
+  FetchResponseError,
+  MockAdapter
+} from '../src'
+
+type RecordedEvent = { [N in FetchEventName]: { name: N } & FetchEventMap[N] }[FetchEventName]
+
+const mock = new MockAdapter()
+  .on('GET', '/users', { body: [{ id: 1 }], delay: 10, headers: { 'content-length': '10' } })
+  .on('GET', '/flaky', { status: 503 }, { times: 1 })
+  .on('GET', '/flaky', { body: { ok: true } })
+  .on('GET', '/missing', { body: { message: 'Not found' }, status: 404 })
+  .on('GET', '/offline', { error: new TypeError('Failed to fetch') })
+  .on('GET', '/stream', { body: 'data', headers: { 'content-type': 'text/plain' } })
+  .on('POST', '/users', (request) => ({ body: request.body, status: 201 }))
+  .on('GET', '/cached', (request) => (request.headers.get('if-none-match') === 'v1'
+    ? { status: 304 }
+    : { body: [{ id: 1 }], headers: { 'cache-control': 'no-cache', etag: 'v1' } }))
+
+/**
+ * Returns a client recording the events of requests.
+ * @param client
+ */
+function record (client: FetchClient): RecordedEvent[] {
+  const events: RecordedEvent[] = []
+  const names: FetchEventName[] = ['request:error', 'request:start', 'response:body', 'response:headers']
+  names.forEach((name) => {
+    client.on(name, (event) => events.push({ name, ...event } as RecordedEvent))
+  })
+  return events
+}
+
+function createClient (): FetchClient {
+  return new FetchClient({
+    baseUrl: 'https://api.example.com',
+    fetch: mock.fetch,
+    responseType: 'json'
+  })
+}
+
+describe('client.on()', () => {
+  it('should emit events of requests with timings and sizes', async () => {
+    const client = createClient()
+    const events = record(client)
+    await client.post('/users', { name: 'john' })
+
+    expect(events.map((e) => e.name)).toStrictEqual(['request:start', 'response:headers', 'response:body'])
+    const [start, headers, body] = events
+    expect(start).toMatchObject({ attempt: 1, method: 'POST', size: 15, url: 'https://api.example.com/users' })
+    expect(headers).toMatchObject({ id: start.id, status: 201 })
+    expect(body).toMatchObject({ id: start.id, size: 15, status: 201 })
+
+    if (headers.name === 'response:headers' && body.name === 'response:body') {
+      expect(headers.timings.headers).toBeGreaterThanOrEqual(headers.timings.start)
+      expect(body.timings.body).toBeGreaterThanOrEqual(headers.timings.headers ?? 0)
+      expect(body.duration).toBeGreaterThanOrEqual(headers.duration)
+    }
+  })
+
+  it('should measure the time to receive headers', async () => {
+    const client = createClient()
+    const events = record(client)
+    await client.get('/users')
+
+    const headers = events.find((e) => e.name === 'response:headers')
+    expect(headers).toMatchObject({ size: 10, status: 200 })
+    expect(headers?.name === 'response:headers' && headers.duration).toBeGreaterThanOrEqual(9)
+  })
+
+  it('should emit events of each attempt', async () => {
+    const client = createClient()
+    const events = record(client)
+    await client.get('/flaky', { retry: { attempts: 2, delay: 0 } })
+
+    expect(events.map((e) => `${e.attempt} ${e.name}`)).toStrictEqual([
+      '1 request:start',
+      '1 response:headers',
+      '1 response:body',
+      '1 request:error',
+      '2 request:start',
+      '2 response:headers',
+      '2 response:body'
+    ])
+    expect(events[0].id).not.toBe(events[4].id)
+    expect(events[3]).toMatchObject({ status: 503 })
+  })
+
+  it('should emit errors', async () => {
+    const client = createClient()
+    const events = record(client)
+    await expect(client.get('/missing')).rejects.toThrow(FetchResponseError)
+    await expect(client.get('/offline')).rejects.toThrow(FetchNetworkError)
+
+    const errors = events.filter((e) => e.name === 'request:error')
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toMatchObject({ status: 404 })
+    expect(errors[1]).toMatchObject({ status: undefined })
+    expect(errors[1].name === 'request:error' && errors[1].error).toBeInstanceOf(FetchNetworkError)
+  })
+
+  it('should not measure the body of streams', async () => {
+    const client = createClient()
+    const events = record(client)
+    const resp = await client.get<ReadableStream>('/stream', { responseType: 'stream' })
+    await new Response(resp.body).text()
+
+    expect(events.find((e) => e.name === 'response:body')).toMatchObject({ size: undefined, status: 200 })
+  })
+
+  it('should not emit errors when the cache revalidates a response', async () => {
+    const client = new FetchClient({ baseUrl: 'https://api.example.com', cache: true, fetch: mock.fetch, responseType: 'json' })
+    const events = record(client)
+    await client.get('/cached')
+    const resp = await client.get('/cached')
+
+    expect(resp.status).toBe(200)
+    expect(resp.body).toStrictEqual([{ id: 1 }])
+    expect(events.filter((e) => e.name === 'response:body').map((e) => e.status)).toStrictEqual([200, 304])
+    expect(events.some((e) => e.name === 'request:error')).toBe(false)
+  })
+
+  it('should remove listeners', async () => {
+    const client = createClient()
+    let count = 0
+    const off = client.on('request:start', () => count++)
+    await client.get('/users')
+    off()
+    await client.get('/users')
+    expect(count).toBe(1)
+  })
+
+  it('should ignore errors of listeners', async () => {
+    const client = createClient()
+    client.on('response:headers', () => {
+      throw new Error('listener')
+    })
+    expect((await client.get('/users')).body).toStrictEqual([{ id: 1 }])
+  })
+
+  it('should emit events of child clients to the parent', async () => {
+    const client = createClient()
+    const child = client.extend({ headers: { 'x-child': '1' } })
+    const parentEvents = record(client)
+    const childEvents = record(child)
+    await child.get('/users')
+    await client.get('/users')
+
+    expect(childEvents).toHaveLength(3)
+    expect(parentEvents).toHaveLength(6)
+  })
+})
+
+describe('FetchEventEmitter', () => {
+  it('should tell if an event has listeners', () => {
+    const parent = new FetchEventEmitter()
+    const emitter = new FetchEventEmitter(parent)
+    expect(emitter.has('response:body')).toBe(false)
+    const off = parent.on('response:body', () => undefined)
+    expect(emitter.has('response:body')).toBe(true)
+    off()
+    expect(emitter.has('response:body')).toBe(false)
+  })
+})
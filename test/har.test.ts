@@ -0,0 +1,190 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FetchClient, Har, HarRecorder } from '../src'
+import server, { paths } from './server'
+
+const port = 8902
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+function offline (): Promise<Response> {
+  return Promise.reject(new TypeError('Network is disabled'))
+}
+
+function createClient (recorder: HarRecorder): FetchClient {
+  return new FetchClient({ baseUrl: serverUrl, fetch: recorder.fetch, responseType: 'json' })
+}
+
+describe('HarRecorder', () => {
+  it('should record requests and responses to HAR 1.2', async () => {
+    const recorder = new HarRecorder({ mode: 'record' })
+    const client = createClient(recorder)
+    const resp = await client.post(paths.resources, { name: 'test' }, { headers: { 'x-id': '1' } })
+    await recorder.flush()
+    const har: Har = JSON.parse(JSON.stringify(recorder))
+
+    expect(har.log.version).toBe('1.2')
+    expect(har.log.entries.length).toBe(1)
+    const [entry] = har.log.entries
+    expect(entry.request.method).toBe('POST')
+    expect(entry.request.url).toBe(`${serverUrl}${paths.resources}`)
+    expect(entry.request.postData).toStrictEqual({ mimeType: 'application/json', text: '{"name":"test"}' })
+    expect(entry.request.headers).toContainEqual({ name: 'x-id', value: '1' })
+    expect(entry.response.status).toBe(201)
+    expect(JSON.parse(entry.response.content.text as string)).toStrictEqual(resp.body)
+  })
+
+  it('should replay recorded responses without network', async () => {
+    const recorder = new HarRecorder({ mode: 'record' })
+    const recorded = await createClient(recorder).get(paths.resource, { params: { page: 1 } })
+    await recorder.flush()
+
+    const replayer = new HarRecorder({ fetch: offline, har: recorder.toJSON(), mode: 'replay' })
+    const resp = await createClient(replayer).get(paths.resource, { params: { page: 1 } })
+    expect(resp.status).toBe(200)
+    expect(resp.body).toStrictEqual(recorded.body)
+    expect(resp.headers['content-type']).toBe(recorded.headers['content-type'])
+  })
+
+  it('should replay binary responses', async () => {
+    const recorder = new HarRecorder({ mode: 'record' })
+    await createClient(recorder).get(paths.blob, { responseType: 'blob' })
+    await recorder.flush()
+    expect(recorder.toJSON().log.entries[0].response.content.encoding).toBe('base64')
+
+    const replayer = new HarRecorder({ fetch: offline, har: recorder.toJSON(), mode: 'replay' })
+    const resp = await createClient(replayer).get(paths.blob, { responseType: 'blob' })
+    expect(await (resp.body as Blob).text()).toBe('secret')
+  })
+
+  it('should throw an error if request was not recorded in replay mode', async () => {
+    const replayer = new HarRecorder({ fetch: offline, mode: 'replay' })
+    await expect(createClient(replayer).get(paths.resource))
+      .rejects.toThrow(`No recorded response for GET ${serverUrl}${paths.resource}`)
+  })
+
+  it('should record missing requests in record-missing mode', async () => {
+    const recorder = new HarRecorder({ mode: 'record' })
+    await createClient(recorder).get(paths.resource)
+    await recorder.flush()
+
+    const urls: string[] = []
+    const replayer = new HarRecorder({
+      fetch: (url, init) => {
+        urls.push(url)
+        return fetch(url, init)
+      },
+      har: recorder.toJSON(),
+      mode: 'record-missing'
+    })
+    const client = createClient(replayer)
+    await client.get(paths.resource)
+    await client.get(paths.headers)
+    await replayer.flush()
+    expect(urls).toStrictEqual([`${serverUrl}${paths.headers}`])
+    expect(replayer.toJSON().log.entries.length).toBe(2)
+  })
+
+  it('should match requests by body and query by default', async () => {
+    const recorder = new HarRecorder({ mode: 'record' })
+    const client = createClient(recorder)
+    await client.post(paths.resources, { a: 1 })
+    await client.post(paths.resources, { a: 2 })
+    await recorder.flush()
+
+    const replayer = createClient(new HarRecorder({ fetch: offline, har: recorder.toJSON(), mode: 'replay' }))
+    expect((await replayer.post(paths.resources, { a: 2 })).body.data).toStrictEqual({ a: 2 })
+    expect((await replayer.post(paths.resources, { a: 1 })).body.data).toStrictEqual({ a: 1 })
+    await expect(replayer.post(paths.resources, { a: 3 })).rejects.toThrow('No recorded response')
+  })
+
+  it('should use custom matching rules', async () => {
+    const recorder = new HarRecorder({ mode: 'record' })
+    await createClient(recorder).get(paths.query, { params: { t: 1 } })
+    await recorder.flush()
+
+    const replayer = createClient(new HarRecorder({
+      fetch: offline,
+      har: recorder.toJSON(),
+      match: { query: false },
+      mode: 'replay'
+    }))
+    expect((await replayer.get(paths.query, { params: { t: 2 } })).body.url).toBe(`${paths.query}?t=1`)
+  })
+
+  it('should redact secrets before recording', async () => {
+    const redact = { headers: ['authorization', 'x-api-key'], queryParams: ['token'] }
+    const recorder = new HarRecorder({ mode: 'record', redact })
+    await createClient(recorder).get(paths.noBody, {
+      headers: { authorization: 'Bearer secret', 'x-api-key': 'secret' },
+      params: { token: 'secret' }
+    })
+    await recorder.flush()
+    const json = JSON.stringify(recorder)
+    expect(json).not.toContain('secret')
+    expect(recorder.toJSON().log.entries[0].request.headers).toContainEqual({ name: 'authorization', value: '[REDACTED]' })
+
+    // Redacted requests are still replayed.
+    const replayer = createClient(new HarRecorder({ fetch: offline, har: JSON.parse(json), mode: 'replay', redact }))
+    const resp = await replayer.get(paths.noBody, { params: { token: 'other' } })
+    expect(resp.status).toBe(204)
+  })
+  it('should return streams without waiting for the end of the body', async () => {
+    let controller!: ReadableStreamDefaultController<Uint8Array>
+    const stream = new ReadableStream<Uint8Array>({
+      start: (c) => {
+        controller = c
+        controller.enqueue(new TextEncoder().encode('data: 1\n\n'))
+      }
+    })
+    const recorder = new HarRecorder({
+      fetch: () => Promise.resolve(new Response(stream, { headers: { 'content-type': 'text/event-stream' } })),
+      mode: 'record'
+    })
+    const resp = await createClient(recorder).get<ReadableStream>(paths.events, { responseType: 'stream' })
+    expect(resp.status).toBe(200)
+    expect(recorder.toJSON().log.entries.length).toBe(0)
+
+    controller.close()
+    expect(await new Response(resp.body).text()).toBe('data: 1\n\n')
+    await recorder.flush()
+    expect(recorder.toJSON().log.entries[0].response.content.text).toBe('data: 1\n\n')
+  })
+  it('should record Set-Cookie headers without Headers.getSetCookie()', async () => {
+    const recorder = new HarRecorder({
+      fetch: async () => {
+        const headers = new Headers()
+        headers.append('set-cookie', 'sid=abc; Expires=Wed, 21 Oct 2099 07:28:00 GMT')
+        headers.append('set-cookie', 'lang=en')
+        return new Response(null, { headers })
+      },
+      mode: 'record',
+      redact: { headers: [] }
+    })
+    // Simulate a runtime without Headers.getSetCookie().
+    const { getSetCookie } = Headers.prototype
+    Object.defineProperty(Headers.prototype, 'getSetCookie', { configurable: true, value: undefined, writable: true })
+
+    try {
+      await createClient(recorder).get(paths.noBody)
+      await recorder.flush()
+    } finally {
+      Object.defineProperty(Headers.prototype, 'getSetCookie', { configurable: true, value: getSetCookie, writable: true })
+    }
+    expect(recorder.toJSON().log.entries[0].response.headers.filter((h) => h.name === 'set-cookie')).toStrictEqual([
+      { name: 'set-cookie', value: 'sid=abc; Expires=Wed, 21 Oct 2099 07:28:00 GMT' },
+      { name: 'set-cookie', value: 'lang=en' }
+    ])
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { FetchClient, FetchNetworkError, FetchResponseError, LoggerOptions, MockAdapter } from '../src'
+
+const mock = new MockAdapter()
+  .on('GET', '/users', {
+    body: [{ id: 1, token: 'secret' }],
+    headers: { 'set-cookie': 'sid=1', 'x-request-id': 'abc' }
+  })
+  .on('POST', '/users', (request) => ({ body: request.body, status: 201, statusText: 'Created' }))
+  .on('POST', '/login', { body: 'ok', headers: { 'content-type': 'text/plain' } })
+  .on('GET', '/missing', { body: { message: 'Not found' }, status: 404, statusText: 'Not Found' })
+  .on('GET', '/offline', { error: new TypeError('Failed to fetch') })
+  .on('GET', '/large', { body: 'x'.repeat(100), headers: { 'content-type': 'text/plain' } })
+
+/**
+ * Returns a client writing log messages to an array.
+ * @param options
+ */
+function createClient (options?: LoggerOptions): { client: FetchClient, messages: string[] } {
+  const messages: string[] = []
+  const client = new FetchClient({
+    baseUrl: 'https://api.example.com',
+    fetch: mock.fetch,
+    headers: { authorization: 'Bearer token' },
+    logger: { log: (message) => messages.push(message), ...options },
+    responseType: 'json'
+  })
+  return { client, messages }
+}
+
+describe('logger', () => {
+  it('should log a line per request', async () => {
+    const { client, messages } = createClient()
+    await client.get('/users')
+    await client.post('/users', { name: 'john' })
+
+    expect(messages).toHaveLength(2)
+    expect(messages[0]).toMatch(/^<-- GET https:\/\/api\.example\.com\/users 200 \(\d+ms\)$/)
+    expect(messages[1]).toMatch(/^<-- POST https:\/\/api\.example\.com\/users 201 Created \(\d+ms\)$/)
+  })
+
+  it('should log errors', async () => {
+    const { client, messages } = createClient()
+    await expect(client.get('/missing')).rejects.toThrow(FetchResponseError)
+    await expect(client.get('/offline')).rejects.toThrow(FetchNetworkError)
+
+    expect(messages[0]).toMatch(/^<-- GET https:\/\/api\.example\.com\/missing 404 Not Found \(\d+ms\)$/)
+    expect(messages[1]).toMatch(/^<-- GET https:\/\/api\.example\.com\/offline FetchNetworkError: Network request failed.* \(\d+ms\)$/)
+  })
+
+  it('should log headers with redacted values', async () => {
+    const { client, messages } = createClient({ level: 'headers', redactHeaders: ['X-Request-Id'] })
+    await client.get('/users')
+
+    expect(messages).toHaveLength(3)
+    expect(messages[0]).toBe([
+      '--> GET https://api.example.com/users',
+      'authorization: [REDACTED]'
+    ].join('\n'))
+    expect(messages[2]).toContain('set-cookie: [REDACTED]')
+    expect(messages[2]).toContain('x-request-id: [REDACTED]')
+  })
+
+  it('should log bodies with redacted fields', async () => {
+    const { client, messages } = createClient({ curl: false, level: 'body', redactFields: ['password', 'Token'] })
+    await client.post('/users', { name: 'john', password: 'secret' })
+    await client.get('/users')
+
+    expect(messages[0]).toBe([
+      '--> POST https://api.example.com/users',
+      'authorization: [REDACTED]',
+      'content-type: application/json',
+      '',
+      '{"name":"john","password":"[REDACTED]"}'
+    ].join('\n'))
+    expect(messages[1]).toContain('\n\n{"name":"john","password":"[REDACTED]"}')
+    expect(messages[3]).toContain('\n\n[{"id":1,"token":"[REDACTED]"}]')
+  })
+
+  it('should truncate bodies', async () => {
+    const { client, messages } = createClient({ level: 'body', maxBodyLength: 10 })
+    await client.get('/large', { responseType: 'text' })
+
+    expect(messages[2]).toContain(`\n\n${'x'.repeat(10)}... (90 more characters)`)
+  })
+
+  it('should log the cURL command of requests', async () => {
+    const { client, messages } = createClient({ curl: true, redactFields: ['password'] })
+    await client.post('/users', { name: "o'neil", password: 'secret' })
+    await client.post('/login', new URLSearchParams({ password: 'secret', user: 'john' }), { responseType: 'text' })
+    await client.get('/users')
+
+    expect(messages[0]).toBe([
+      'curl',
+      '-X POST',
+      '\'https://api.example.com/users\'',
+      '-H \'authorization: [REDACTED]\'',
+      '-H \'content-type: application/json\'',
+      '--data-raw \'{"name":"o\'\\\'\'neil","password":"[REDACTED]"}\''
+    ].join(' \\\n  '))
+    expect(messages[2]).toContain('--data-raw \'password=%5BREDACTED%5D&user=john\'')
+    expect(messages[4]).toBe([
+      'curl',
+      '\'https://api.example.com/users\'',
+      '-H \'authorization: [REDACTED]\''
+    ].join(' \\\n  '))
+  })
+
+  it('should not log cached responses', async () => {
+    const messages: string[] = []
+    const cached = new MockAdapter().on('GET', '/users', { body: [], headers: { 'cache-control': 'max-age=60' } })
+    const client = new FetchClient({
+      baseUrl: 'https://api.example.com',
+      cache: true,
+      fetch: cached.fetch,
+      logger: { log: (message) => messages.push(message) },
+      responseType: 'json'
+    })
+    await client.get('/users')
+    await client.get('/users')
+    expect(messages).toHaveLength(1)
+  })
+})
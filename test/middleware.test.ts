@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { FetchClient, FetchClientResponse, FetchContext, FetchResponseError } from '../src'
+import server, { paths, RequestInfo } from './server'
+
+const port = 8893
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+describe('use(middleware)', () => {
+  it('should call middlewares in order around the request', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl })
+    const calls: string[] = []
+    client.use(async (ctx, next) => {
+      calls.push('a:before')
+      const resp = await next()
+      calls.push('a:after')
+      return resp
+    })
+    client.use(async (ctx, next) => {
+      calls.push('b:before')
+      const resp = await next()
+      calls.push('b:after')
+      return resp
+    })
+    await client.get(paths.resource)
+    expect(calls).toEqual(['a:before', 'b:before', 'b:after', 'a:after'])
+  })
+
+  it('should pass the resolved URL and options in context', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl })
+    let context: FetchContext | undefined
+    client.use(async (ctx, next) => {
+      context = { ...ctx }
+      return next()
+    })
+    await client.get(paths.query, { params: { a: 1 } })
+    expect(context?.url).toBe(`${serverUrl}${paths.query}?a=1`)
+    expect(context?.options.method).toBe('GET')
+    expect(context?.attempt).toBe(1)
+  })
+
+  it('should allow modifying the request', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    client.use(async (ctx, next) => {
+      await Promise.resolve()
+      const headers = new Headers(ctx.options.headers)
+      headers.set('test', 'true')
+      ctx.options = { ...ctx.options, headers }
+      return next()
+    })
+    const resp = await client.get<RequestInfo>(paths.headers)
+    expect(resp.body.headers.test).toBe('true')
+  })
+
+  it('should allow replacing the response', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    client.use(async (ctx, next) => {
+      const resp = await next()
+      return { ...resp, body: { replaced: true } }
+    })
+    const resp = await client.get(paths.resource)
+    expect(resp.body).toEqual({ replaced: true })
+  })
+
+  it('should allow short-circuiting the request', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl })
+    const response = { body: 'cached', status: 200 } as FetchClientResponse
+    client.use(async () => response)
+    const resp = await client.get('/not-found')
+    expect(resp).toBe(response)
+  })
+
+  it('should pass the error to middlewares', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    let error: unknown
+    let context: FetchContext | undefined
+    client.use(async (ctx, next) => {
+      try {
+        return await next()
+      } catch (e) {
+        error = e
+        context = ctx
+        throw e
+      }
+    })
+    await expect(client.get(paths.error)).rejects.toBeInstanceOf(FetchResponseError)
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(context?.error).toBe(error)
+  })
+
+  it('should allow retrying the request', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    client.use(async (ctx, next) => {
+      try {
+        return await next()
+      } catch (e) {
+        ctx.url = `${serverUrl}${paths.resource}`
+        return next()
+      }
+    })
+    const resp = await client.get(paths.error)
+    expect(resp.status).toBe(200)
+  })
+
+  it('should return a function to remove the middleware', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl })
+    const middleware = vi.fn((ctx, next) => next())
+    const remove = client.use(middleware)
+    await client.get(paths.resource)
+    remove()
+    await client.get(paths.resource)
+    expect(middleware).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('options.middlewares', () => {
+  const middleware = vi.fn((ctx, next) => next())
+  const client = new FetchClient({
+    baseUrl: serverUrl,
+    middlewares: [middleware]
+  })
+
+  it('should call middlewares', async () => {
+    await client.get(paths.resource)
+    expect(middleware).toHaveBeenCalledTimes(1)
+  })
+
+  it('should be called after beforeEach and transformRequest', async () => {
+    const calls: string[] = []
+    const hookClient = new FetchClient({
+      baseUrl: serverUrl,
+      beforeEach: async (url, options) => {
+        calls.push('beforeEach')
+        return options
+      },
+      middlewares: [(ctx, next) => {
+        calls.push('middleware')
+        return next()
+      }],
+      transformRequest: [(url, options) => {
+        calls.push('transformRequest')
+        return options
+      }]
+    })
+    await hookClient.get(paths.resource)
+    expect(calls).toEqual(['transformRequest', 'beforeEach', 'middleware'])
+  })
+
+  it('should be called for each attempt', async () => {
+    const onAttempt = vi.fn((ctx, next) => next())
+    const retryClient = new FetchClient({
+      baseUrl: serverUrl,
+      middlewares: [onAttempt],
+      retry: { delay: 10 }
+    })
+    await retryClient.get(`${paths.flaky}?key=middleware&failures=1`)
+    expect(onAttempt).toHaveBeenCalledTimes(2)
+    expect(onAttempt.mock.calls[1][0].attempt).toBe(2)
+  })
+})
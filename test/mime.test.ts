@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { FetchClient, FetchResponseError, getMediaType, getResponseType, MockAdapter } from '../src'
+
+describe('getMediaType()', () => {
+  it('should return the media type without parameters', () => {
+    expect(getMediaType('Application/JSON; charset=utf-8')).toBe('application/json')
+    expect(getMediaType(null)).toBe('')
+  })
+})
+
+describe('getResponseType()', () => {
+  it('should return the type of a content type', () => {
+    expect(getResponseType('application/json; charset=utf-8')).toBe('json')
+    expect(getResponseType('application/problem+json')).toBe('json')
+    expect(getResponseType('text/html')).toBe('text')
+    expect(getResponseType('application/x-www-form-urlencoded')).toBe('formData')
+    expect(getResponseType('multipart/form-data; boundary=x')).toBe('formData')
+    expect(getResponseType('application/x-ndjson')).toBe('ndjson')
+    expect(getResponseType('image/png')).toBe('blob')
+    expect(getResponseType(null)).toBe('blob')
+  })
+
+  it('should use the most specific custom type', () => {
+    const types = { '*/*': 'arrayBuffer', 'application/vnd.api+json': 'text', 'image/*': 'stream' } as const
+    expect(getResponseType('application/vnd.api+json', types)).toBe('text')
+    expect(getResponseType('application/hal+json', types)).toBe('json')
+    expect(getResponseType('image/png', types)).toBe('stream')
+    expect(getResponseType('application/pdf', types)).toBe('arrayBuffer')
+  })
+})
+
+describe('responseType: "auto"', () => {
+  const mock = new MockAdapter()
+    .on('GET', '/json', { body: { id: 1 } })
+    .on('GET', '/text', { body: 'hello', headers: { 'content-type': 'text/plain' } })
+    .on('GET', '/binary', { body: new Uint8Array([1, 2, 3]), headers: { 'content-type': 'application/octet-stream' } })
+    .on('GET', '/custom', { body: '{"id":2}', headers: { 'content-type': 'application/x-custom' } })
+    .on('GET', '/error', { body: { error: 'Not Found' }, status: 404 })
+    .on('GET', '/html-error', { body: '<h1>Bad Gateway</h1>', headers: { 'content-type': 'text/html' }, status: 502 })
+  const client = new FetchClient({
+    baseUrl: 'https://api.example.com',
+    fetch: mock.fetch,
+    responseType: 'auto',
+    responseTypes: { 'application/x-custom': 'json' }
+  })
+
+  it('should parse the body using the content type', async () => {
+    expect((await client.get('/json')).body).toStrictEqual({ id: 1 })
+    expect((await client.get('/text')).body).toBe('hello')
+    const binary = (await client.get('/binary')).body
+    expect(binary).toBeInstanceOf(Blob)
+    expect(new Uint8Array(await binary.arrayBuffer())).toStrictEqual(new Uint8Array([1, 2, 3]))
+  })
+
+  it('should use custom types', async () => {
+    expect((await client.get('/custom')).body).toStrictEqual({ id: 2 })
+  })
+
+  it('should parse the body of error responses', async () => {
+    const error = await client.get('/error').catch((e) => e)
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(error.response.body).toStrictEqual({ error: 'Not Found' })
+    const htmlError = await client.get('/html-error').catch((e) => e)
+    expect(htmlError.response.body).toBe('<h1>Bad Gateway</h1>')
+  })
+})
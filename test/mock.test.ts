@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import { FetchClient, FetchNetworkError, FetchResponseError, MockAdapter } from '../src'
+
+function createClient (mock: MockAdapter): FetchClient {
+  return new FetchClient({
+    baseUrl: 'https://api.example.com',
+    fetch: mock.fetch,
+    responseType: 'json'
+  })
+}
+
+describe('fetch', () => {
+  it('should execute requests with the adapter', async () => {
+    const urls: string[] = []
+    const client = new FetchClient({
+      fetch: async (url) => {
+        urls.push(url)
+        return new Response('ok')
+      },
+      responseType: 'text'
+    })
+    const resp = await client.get('https://example.com/a')
+    expect(resp.body).toBe('ok')
+    expect(urls).toStrictEqual(['https://example.com/a'])
+  })
+})
+
+describe('MockAdapter', () => {
+  it('should respond with a static response', async () => {
+    const mock = new MockAdapter()
+      .on('GET', '/users', { body: [{ id: 1 }], headers: { 'x-total': '1' } })
+    const resp = await createClient(mock).get('/users')
+    expect(resp.status).toBe(200)
+    expect(resp.body).toStrictEqual([{ id: 1 }])
+    expect(resp.headers['content-type']).toBe('application/json')
+    expect(resp.headers['x-total']).toBe('1')
+    expect(resp.original.url).toBe('https://api.example.com/users')
+  })
+
+  it('should respond with a function and pass URL params', async () => {
+    const mock = new MockAdapter()
+      .on('PUT', '/users/:id', (request) => ({
+        body: { id: Number(request.params.id), ...(request.body as object) },
+        status: 201
+      }))
+    const resp = await createClient(mock).put('/users/5', { name: 'jalik' })
+    expect(resp.status).toBe(201)
+    expect(resp.body).toStrictEqual({ id: 5, name: 'jalik' })
+  })
+
+  it('should respond with a Response', async () => {
+    const mock = new MockAdapter()
+      .on('GET', '*', new Response('text', { status: 202 }))
+    const client = createClient(mock)
+    expect((await client.get('/a', { responseType: 'text' })).body).toBe('text')
+    expect((await client.get('/b', { responseType: 'text' })).status).toBe(202)
+  })
+
+  it('should match routes by method', async () => {
+    const mock = new MockAdapter()
+      .on('POST', '/users', { body: { route: 'post' } })
+      .on('*', '/users', { body: { route: 'any' } })
+    const client = createClient(mock)
+    expect((await client.post('/users', {})).body.route).toBe('post')
+    expect((await client.delete('/users')).body.route).toBe('any')
+  })
+
+  it('should match routes by absolute URL and RegExp', async () => {
+    const mock = new MockAdapter()
+      .on('GET', 'https://other.com/*', { body: { route: 'other' } })
+      .on('GET', /\/files\/\d+\?v=2$/, { body: { route: 'file' } })
+    const client = createClient(mock)
+    expect((await client.get('https://other.com/a/b')).body.route).toBe('other')
+    expect((await client.get('/files/12', { params: { v: 2 } })).body.route).toBe('file')
+  })
+
+  it('should match routes by query, headers and body', async () => {
+    const mock = new MockAdapter()
+      .on('GET', '/search', { body: { route: 'page 2' } }, { query: { page: 2, tags: ['a', 'b'] } })
+      .on('GET', '/search', { body: { route: 'admin' } }, { headers: { 'x-role': 'admin' } })
+      .on('POST', '/login', { status: 401 }, { body: (body: any) => body.password !== 'secret' })
+      .on('POST', '/login', { body: { token: 'abc' } }, { body: { user: 'jalik', password: 'secret' } })
+    const client = createClient(mock)
+    expect((await client.get('/search', { params: { page: 2, tags: ['a', 'b'] } })).body.route).toBe('page 2')
+    expect((await client.get('/search', { headers: { 'x-role': 'admin' } })).body.route).toBe('admin')
+    expect((await client.post('/login', { user: 'jalik', password: 'secret' })).body).toStrictEqual({ token: 'abc' })
+    await expect(client.post('/login', { user: 'jalik', password: 'wrong' })).rejects.toThrow(FetchResponseError)
+  })
+
+  it('should use a route a limited number of times', async () => {
+    const mock = new MockAdapter()
+      .on('GET', '/flaky', { status: 503 }, { times: 1 })
+      .on('GET', '/flaky', { body: { route: 'ok' } })
+    const client = createClient(mock)
+    expect(mock.pending).toBe(1)
+    await expect(client.get('/flaky')).rejects.toThrow(FetchResponseError)
+    expect(mock.pending).toBe(0)
+    expect((await client.get('/flaky')).body.route).toBe('ok')
+  })
+
+  it('should simulate network errors', async () => {
+    const error = new TypeError('Failed to fetch')
+    const mock = new MockAdapter()
+      .on('GET', '/offline', { error })
+    const promise = createClient(mock).get('/offline')
+    await expect(promise).rejects.toBeInstanceOf(FetchNetworkError)
+    await expect(promise).rejects.toHaveProperty('cause', error)
+  })
+
+  it('should simulate delays and support abort', async () => {
+    const mock = new MockAdapter({ delay: 50 })
+      .on('GET', '/slow', { body: { route: 'slow' } })
+      .on('GET', '/slower', { body: { route: 'slower' }, delay: 500 })
+    const client = createClient(mock)
+    const startTime = Date.now()
+    expect((await client.get('/slow')).body.route).toBe('slow')
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(45)
+    await expect(client.get('/slower', { timeout: 50 })).rejects.toThrow('Request timed out after 50ms')
+  })
+
+  it('should throw an error if no route matches', async () => {
+    const mock = new MockAdapter()
+    await expect(createClient(mock).get('/unknown'))
+      .rejects.toThrow('No mock route for GET https://api.example.com/unknown')
+  })
+
+  it('should record received requests', async () => {
+    const mock = new MockAdapter()
+      .on('*', '*', { status: 204 })
+    const client = createClient(mock)
+    await client.post('/users', { name: 'jalik' }, { headers: { 'x-id': '1' } })
+    await client.get('/users', { params: { page: 1 } })
+
+    expect(mock.history.length).toBe(2)
+    const [request] = mock.getRequests('POST', '/users')
+    expect(request.body).toStrictEqual({ name: 'jalik' })
+    expect(request.headers.get('x-id')).toBe('1')
+    expect(mock.getRequests('GET', '/users')[0].query).toStrictEqual({ page: '1' })
+    expect(mock.getRequests('DELETE').length).toBe(0)
+
+    mock.reset()
+    expect(mock.history.length).toBe(0)
+    await expect(client.get('/users')).rejects.toThrow('No mock route')
+  })
+})
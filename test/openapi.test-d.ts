@@ -0,0 +1,149 @@
+import { describe, expectTypeOf, it } from 'vitest'
+import {
+  createOpenApiClient,
+  FetchClient,
+  FetchClientResponse,
+  OpenApiErrorResponse,
+  OpenApiOperation,
+  OpenApiPaths
+} from '../src'
+
+type User = {
+  id: number
+  name: string
+}
+
+type paths = {
+  '/users': {
+    get: {
+      parameters: {
+        query?: {
+          page?: number
+        }
+      }
+      responses: {
+        200: {
+          content: {
+            'application/json': User[]
+          }
+        }
+      }
+    }
+    post: {
+      requestBody: {
+        content: {
+          'application/json': Omit<User, 'id'>
+        }
+      }
+      responses: {
+        201: {
+          content: {
+            'application/json': User
+          }
+        }
+      }
+    }
+  }
+  '/users/{id}': {
+    delete: {
+      parameters: {
+        path: {
+          id: number
+        }
+      }
+      responses: {
+        204: {
+          content?: never
+        }
+        404: {
+          content: {
+            'application/json': { message: string }
+          }
+        }
+      }
+    }
+    get: {
+      parameters: {
+        path: {
+          id: number
+        }
+        query: {
+          fields: string
+        }
+      }
+      responses: {
+        200: {
+          content: {
+            'application/json': User
+          }
+        }
+      }
+    }
+  }
+}
+
+const api = createOpenApiClient<paths>(new FetchClient())
+
+describe('OpenApiPaths<P, M>', () => {
+  it('should return the paths having an operation for the method', () => {
+    expectTypeOf<OpenApiPaths<paths, 'get'>>().toEqualTypeOf<'/users' | '/users/{id}'>()
+    expectTypeOf<OpenApiPaths<paths, 'post'>>().toEqualTypeOf<'/users'>()
+  })
+})
+
+describe('createOpenApiClient()', () => {
+  it('should accept only the paths of the method', () => {
+    api.post('/users', { body: { name: 'john' } })
+
+    // @ts-expect-error the path does not exist
+    api.get('/posts')
+    // @ts-expect-error the path has no POST operation
+    api.post('/users/{id}', { body: {}, pathParams: { id: 1 } })
+  })
+
+  it('should require path params', () => {
+    api.delete('/users/{id}', { pathParams: { id: 1 } })
+
+    // @ts-expect-error options are required
+    api.delete('/users/{id}')
+    // @ts-expect-error the param is missing
+    api.delete('/users/{id}', { pathParams: {} })
+    // @ts-expect-error the value is not valid
+    api.delete('/users/{id}', { pathParams: { id: '1' } })
+  })
+
+  it('should type query params', () => {
+    api.get('/users')
+    api.get('/users', { params: { page: 2 } })
+    api.get('/users/{id}', { params: { fields: 'name' }, pathParams: { id: 1 } })
+
+    // @ts-expect-error the query param is not valid
+    api.get('/users', { params: { page: '2' } })
+    // @ts-expect-error the query is required
+    api.get('/users/{id}', { pathParams: { id: 1 } })
+  })
+
+  it('should type the body', () => {
+    // @ts-expect-error the body is required
+    api.post('/users')
+    // @ts-expect-error the body is not valid
+    api.post('/users', { body: { name: 1 } })
+    // @ts-expect-error the operation has no body
+    api.delete('/users/{id}', { body: 'a', pathParams: { id: 1 } })
+  })
+
+  it('should return the successful responses', () => {
+    expectTypeOf(api.get('/users')).resolves.toEqualTypeOf<FetchClientResponse<User[]> & { status: 200 }>()
+    expectTypeOf(api.post('/users', { body: { name: 'john' } }))
+      .resolves.toEqualTypeOf<FetchClientResponse<User> & { status: 201 }>()
+    expectTypeOf(api.delete('/users/{id}', { pathParams: { id: 1 } }))
+      .resolves.toEqualTypeOf<FetchClientResponse<undefined> & { status: 204 }>()
+  })
+})
+
+describe('OpenApiErrorResponse<O>', () => {
+  it('should return the error responses', () => {
+    expectTypeOf<OpenApiErrorResponse<OpenApiOperation<paths, '/users/{id}', 'delete'>>>()
+      .toEqualTypeOf<FetchClientResponse<{ message: string }> & { status: 404 }>()
+  })
+})
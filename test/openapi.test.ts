@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createOpenApiClient,
+  FetchClient,
+  FetchResponseError,
+  generateOpenApiTypes,
+  MockAdapter,
+  OpenApiDocument
+} from '../src'
+
+type User = {
+  id: number
+  name: string
+}
+
+type paths = {
+  '/users': {
+    get: {
+      parameters: {
+        query?: {
+          page?: number
+        }
+      }
+      responses: {
+        200: {
+          content: {
+            'application/json': { query: Record<string, string> }
+          }
+        }
+      }
+    }
+    post: {
+      requestBody: {
+        content: {
+          'application/json': Omit<User, 'id'>
+        }
+      }
+      responses: {
+        201: {
+          content: {
+            'application/json': User
+          }
+        }
+      }
+    }
+  }
+  '/users/{id}': {
+    delete: {
+      parameters: {
+        path: {
+          id: number
+        }
+      }
+      responses: {
+        204: {
+          content?: never
+        }
+        404: {
+          content: {
+            'application/json': { message: string }
+          }
+        }
+      }
+    }
+    get: {
+      parameters: {
+        path: {
+          id: number
+        }
+      }
+      responses: {
+        200: {
+          content: {
+            'application/json': User
+          }
+        }
+      }
+    }
+  }
+}
+
+const mock = new MockAdapter()
+  .on('GET', '/users', (request) => ({ body: { query: request.query } }))
+  .on('GET', '/users/:id', (request) => ({ body: { id: Number(request.params.id), name: 'john' } }))
+  .on('POST', '/users', (request) => ({ body: { ...request.body as object, id: 2 }, status: 201 }))
+  .on('DELETE', '/users/1', { status: 204 })
+  .on('DELETE', '/users/:id', { body: { message: 'Not found' }, status: 404 })
+
+const client = new FetchClient({
+  baseUrl: 'https://api.example.com',
+  fetch: mock.fetch
+})
+
+const api = createOpenApiClient<paths>(client)
+
+describe('createOpenApiClient()', () => {
+  it('should replace path params', async () => {
+    const resp = await api.get('/users/{id}', { pathParams: { id: 1 } })
+    expect(resp.status).toBe(200)
+    expect(resp.body).toStrictEqual({ id: 1, name: 'john' })
+  })
+
+  it('should send query params', async () => {
+    expect((await api.get('/users', { params: { page: 2 } })).body).toStrictEqual({ query: { page: '2' } })
+    expect((await api.get('/users')).body).toStrictEqual({ query: {} })
+  })
+
+  it('should send the body', async () => {
+    const resp = await api.post('/users', { body: { name: 'jane' } })
+    expect(resp.status).toBe(201)
+    expect(resp.body).toStrictEqual({ id: 2, name: 'jane' })
+  })
+
+  it('should return responses without content', async () => {
+    const resp = await api.delete('/users/{id}', { pathParams: { id: 1 } })
+    expect(resp.status).toBe(204)
+    expect(resp.body).toBeUndefined()
+  })
+
+  it('should throw error responses', async () => {
+    const error = await api.delete('/users/{id}', { pathParams: { id: 2 } }).catch((e) => e)
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(error.response.body).toStrictEqual({ message: 'Not found' })
+  })
+})
+
+describe('generateOpenApiTypes()', () => {
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    paths: {
+      '/users/{id}': {
+        parameters: [{ in: 'path', name: 'id', required: true, schema: { type: 'integer' } }],
+        get: {
+          parameters: [{ $ref: '#/components/parameters/fields' }],
+          responses: {
+            200: { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } },
+            404: { $ref: '#/components/responses/NotFound' }
+          }
+        },
+        put: {
+          requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }, required: true },
+          responses: { 204: {} }
+        }
+      }
+    },
+    components: {
+      parameters: {
+        fields: { in: 'query', name: 'fields', schema: { items: { enum: ['id', 'name'] }, type: 'array' } }
+      },
+      responses: {
+        NotFound: { content: { 'text/plain': { schema: { type: 'string' } } } }
+      },
+      schemas: {
+        User: {
+          properties: {
+            'first-name': { type: ['string', 'null'] },
+            id: { type: 'integer' },
+            tags: { additionalProperties: { type: 'string' }, type: 'object' }
+          },
+          required: ['id'],
+          type: 'object'
+        }
+      }
+    }
+  }
+
+  it('should return the type of paths', () => {
+    expect(generateOpenApiTypes(document)).toContain(`export type paths = {
+  '/users/{id}': {
+    get: {
+      parameters: {
+        path: {
+          id: number
+        }
+        query?: {
+          fields?: ('id' | 'name')[]
+        }
+      }
+      responses: {
+        200: {
+          content: {
+            'application/json': components['schemas']['User']
+          }
+        }
+        404: {
+          content: {
+            'text/plain': string
+          }
+        }
+      }
+    }
+    put: {
+      parameters: {
+        path: {
+          id: number
+        }
+      }
+      requestBody: {
+        content: {
+          'application/json': components['schemas']['User']
+        }
+      }
+      responses: {
+        204: {
+          content?: never
+        }
+      }
+    }
+  }
+}`)
+  })
+
+  it('should return the type of schemas', () => {
+    expect(generateOpenApiTypes(document)).toContain(`export type components = {
+  schemas: {
+    User: {
+      'first-name'?: string | null
+      id: number
+      tags?: {
+        [key: string]: string
+      }
+    }
+  }
+}`)
+  })
+
+  it('should return the type of combined schemas', () => {
+    const types = generateOpenApiTypes({
+      components: {
+        schemas: {
+          Pet: {
+            allOf: [
+              { $ref: '#/components/schemas/Animal' },
+              { oneOf: [{ const: 'cat' }, { const: 'dog' }] }
+            ]
+          },
+          Animal: { nullable: true, type: 'object' }
+        }
+      }
+    })
+    expect(types).toContain(`Pet: components['schemas']['Animal'] & ('cat' | 'dog')`)
+    expect(types).toContain('Animal: Record<string, unknown> | null')
+  })
+})
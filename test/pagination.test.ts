@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  cursorPagination,
+  FetchAbortError,
+  FetchClient,
+  MockAdapter,
+  offsetPagination,
+  pagePagination,
+  parseLinkHeader
+} from '../src'
+import server, { paths } from './server'
+
+const port = 8898
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+function range (from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i)
+}
+
+describe('parseLinkHeader', () => {
+  it('should return URLs by relation', () => {
+    expect(parseLinkHeader('<https://a.com/?page=2>; rel="next", <https://a.com/?page=5>; rel=last'))
+      .toStrictEqual({ next: 'https://a.com/?page=2', last: 'https://a.com/?page=5' })
+  })
+
+  it('should support several relations and parameters', () => {
+    expect(parseLinkHeader('<https://a.com/2>; title="Next page"; rel="next last"'))
+      .toStrictEqual({ next: 'https://a.com/2', last: 'https://a.com/2' })
+  })
+
+  it('should return an empty object if value is empty', () => {
+    expect(parseLinkHeader(null)).toStrictEqual({})
+    expect(parseLinkHeader('')).toStrictEqual({})
+  })
+})
+
+describe('paginate()', () => {
+  const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+
+  it('should follow the next URL of the Link header by default', async () => {
+    const items = await client.paginateAll<number>(paths.items, {
+      params: { style: 'link', size: 10, total: 25 }
+    })
+    expect(items).toStrictEqual(range(1, 25))
+  })
+
+  it('should not add client params to the next URL of the Link header', async () => {
+    const mock = new MockAdapter()
+      .on('GET', '/items', (request) => (request.query.page === '2'
+        ? { body: [3, 4] }
+        : { body: [1, 2], headers: { link: '<https://api.example.com/items?api_key=k&page=2>; rel="next"' } }))
+    const c = new FetchClient({ baseUrl: 'https://api.example.com', fetch: mock.fetch, params: { api_key: 'k' }, responseType: 'json' })
+    const urls: string[] = []
+    c.use((context, next) => {
+      urls.push(context.url)
+      return next()
+    })
+    expect(await c.paginateAll<number>('/items')).toStrictEqual([1, 2, 3, 4])
+    expect(urls).toStrictEqual([
+      'https://api.example.com/items?api_key=k',
+      'https://api.example.com/items?api_key=k&page=2'
+    ])
+  })
+
+  it('should use the cursor found in the response', async () => {
+    const items = await client.paginateAll<number>(paths.items, {
+      params: { style: 'cursor', total: 25 },
+      pagination: {
+        items: (response) => response.body.items,
+        next: cursorPagination({ cursor: (response) => response.body.next })
+      }
+    })
+    expect(items).toStrictEqual(range(1, 25))
+  })
+
+  it('should increment the offset param', async () => {
+    const items = await client.paginateAll<number>(paths.items, {
+      params: { limit: 10, total: 25 },
+      pagination: { next: offsetPagination() }
+    })
+    expect(items).toStrictEqual(range(1, 25))
+  })
+
+  it('should increment the page param', async () => {
+    const pages: number[][] = []
+
+    for await (const page of client.paginatePages<number, number[]>(paths.items, {
+      params: { size: 10, total: 20 },
+      pagination: { next: pagePagination() }
+    })) {
+      expect(page.response.status).toBe(200)
+      pages.push(page.items)
+    }
+    // The last page is empty.
+    expect(pages).toStrictEqual([range(1, 10), range(11, 20), []])
+  })
+
+  it('should stop after maxPages', async () => {
+    const items = await client.paginateAll<number>(paths.items, {
+      params: { limit: 10, total: 100 },
+      pagination: { maxPages: 2, next: offsetPagination() }
+    })
+    expect(items).toStrictEqual(range(1, 20))
+  })
+
+  it('should stop after maxItems', async () => {
+    const items = await client.paginateAll<number>(paths.items, {
+      params: { limit: 10, total: 100 },
+      pagination: { maxItems: 15, next: offsetPagination() }
+    })
+    expect(items).toStrictEqual(range(1, 15))
+  })
+
+  it('should stop fetching pages when iteration is stopped', async () => {
+    const urls: string[] = []
+    const c = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    c.use((context, next) => {
+      urls.push(context.url)
+      return next()
+    })
+    const items: number[] = []
+
+    for await (const item of c.paginate<number>(paths.items, {
+      params: { limit: 10, total: 100 },
+      pagination: { next: offsetPagination() }
+    })) {
+      items.push(item)
+      if (item === 12) break
+    }
+    expect(items).toStrictEqual(range(1, 12))
+    expect(urls.length).toBe(2)
+  })
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController()
+    const items: number[] = []
+
+    await expect(async () => {
+      for await (const item of client.paginate<number>(paths.items, {
+        params: { limit: 10, total: 100 },
+        pagination: { next: offsetPagination() },
+        signal: controller.signal
+      })) {
+        items.push(item)
+        if (item === 10) controller.abort()
+      }
+    }).rejects.toThrow(FetchAbortError)
+    expect(items).toStrictEqual(range(1, 10))
+  })
+})
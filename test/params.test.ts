@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FetchClient, serializeParams } from '../src'
+import server, { paths } from './server'
+
+const port = 8891
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+type QueryBody = {
+  url: string
+}
+
+describe('serializeParams(params, options)', () => {
+  it('should serialize primitive values', () => {
+    expect(serializeParams({ a: 1, b: 'text', c: true })).toBe('a=1&b=text&c=true')
+  })
+
+  it('should encode keys and values', () => {
+    expect(serializeParams({ 'a b': 'x&y=z' })).toBe('a%20b=x%26y%3Dz')
+  })
+
+  it('should ignore null and undefined values', () => {
+    expect(serializeParams({ a: null, b: undefined, c: 0 })).toBe('c=0')
+  })
+
+  it('should serialize dates to ISO strings', () => {
+    const date = new Date(Date.UTC(2024, 0, 1))
+    expect(serializeParams({ date })).toBe(`date=${encodeURIComponent(date.toISOString())}`)
+  })
+
+  it('should serialize nested objects using bracket notation', () => {
+    expect(serializeParams({ a: { b: 1, c: { d: 2 } } })).toBe('a[b]=1&a[c][d]=2')
+  })
+
+  it('should serialize arrays with "repeat" format by default', () => {
+    expect(serializeParams({ a: [1, 2] })).toBe('a=1&a=2')
+  })
+
+  it('should serialize arrays with "brackets" format', () => {
+    expect(serializeParams({ a: [1, 2] }, { arrayFormat: 'brackets' })).toBe('a[]=1&a[]=2')
+  })
+
+  it('should serialize arrays with "comma" format', () => {
+    expect(serializeParams({ a: [1, 2, null] }, { arrayFormat: 'comma' })).toBe('a=1,2')
+  })
+
+  it('should serialize objects in arrays using indexes', () => {
+    expect(serializeParams({ a: [{ b: 1 }, { b: 2 }] })).toBe('a[0][b]=1&a[1][b]=2')
+  })
+})
+
+describe('options.params', () => {
+  const client = new FetchClient({
+    baseUrl: serverUrl,
+    params: { key: 'secret' },
+    responseType: 'json'
+  })
+
+  it('should add client params to URL', async () => {
+    const resp = await client.get<QueryBody>(paths.query)
+    expect(resp.body.url).toBe(`${paths.query}?key=secret`)
+  })
+
+  it('should merge request params with client params', async () => {
+    const resp = await client.get<QueryBody>(paths.query, { params: { key: 'other', page: 2 } })
+    expect(resp.body.url).toBe(`${paths.query}?key=other&page=2`)
+  })
+
+  it('should merge params with the query string of the URL', async () => {
+    const resp = await client.get<QueryBody>(`${paths.query}?a=1`, { params: { b: 2 } })
+    expect(resp.body.url).toBe(`${paths.query}?a=1&key=secret&b=2`)
+  })
+
+  it('should merge params with the query string of the base URL', async () => {
+    const baseClient = new FetchClient({
+      baseUrl: `${serverUrl}?base=1`,
+      responseType: 'json'
+    })
+    const resp = await baseClient.get<QueryBody>(`${paths.query}?a=1`, { params: { b: 2 } })
+    expect(resp.body.url).toBe(`${paths.query}?base=1&a=1&b=2`)
+  })
+
+  it('should keep the URL unchanged without params', async () => {
+    const resp = await new FetchClient({ responseType: 'json' })
+      .get<QueryBody>(`${serverUrl}${paths.query}`)
+    expect(resp.body.url).toBe(paths.query)
+  })
+
+  it('should keep the hash at the end of the URL', async () => {
+    let target: string | undefined
+    const hashClient = new FetchClient({
+      transformRequest: [(url, options) => {
+        target = url
+        return options
+      }]
+    })
+    await hashClient.get(`${serverUrl}${paths.query}#top`, { params: { a: 1 } })
+    expect(target).toBe(`${serverUrl}${paths.query}?a=1#top`)
+  })
+})
+
+describe('options.paramsSerializer', () => {
+  describe('with serializer options', () => {
+    const client = new FetchClient({
+      baseUrl: serverUrl,
+      paramsSerializer: { arrayFormat: 'brackets' },
+      responseType: 'json'
+    })
+
+    it('should use serializer options', async () => {
+      const resp = await client.get<QueryBody>(paths.query, { params: { a: [1, 2] } })
+      expect(resp.body.url).toBe(`${paths.query}?a[]=1&a[]=2`)
+    })
+
+    it('should be overridden by request option', async () => {
+      const resp = await client.get<QueryBody>(paths.query, {
+        params: { a: [1, 2] },
+        paramsSerializer: { arrayFormat: 'comma' }
+      })
+      expect(resp.body.url).toBe(`${paths.query}?a=1,2`)
+    })
+  })
+
+  describe('with serializer function', () => {
+    const client = new FetchClient({
+      baseUrl: serverUrl,
+      paramsSerializer: (params) => `custom=${Object.keys(params).join('-')}`,
+      responseType: 'json'
+    })
+
+    it('should use serializer function', async () => {
+      const resp = await client.get<QueryBody>(paths.query, { params: { a: 1, b: 2 } })
+      expect(resp.body.url).toBe(`${paths.query}?custom=a-b`)
+    })
+  })
+})
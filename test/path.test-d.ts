@@ -0,0 +1,61 @@
+import { describe, expectTypeOf, it } from 'vitest'
+import { FetchClient, PathParamNames, PathParams, PathParamValue } from '../src'
+
+const client = new FetchClient()
+
+describe('PathParamNames<T>', () => {
+  it('should return the names of params', () => {
+    expectTypeOf<PathParamNames<'/users/:id/posts/{postId}'>>().toEqualTypeOf<'id' | 'postId'>()
+  })
+
+  it('should ignore the query string and the hash', () => {
+    expectTypeOf<PathParamNames<'/users/:id?sort=:name#:hash'>>().toEqualTypeOf<'id'>()
+  })
+
+  it('should return never without params', () => {
+    expectTypeOf<PathParamNames<'/users'>>().toEqualTypeOf<never>()
+  })
+})
+
+describe('PathParams<T>', () => {
+  it('should return the params required by the URL', () => {
+    expectTypeOf<PathParams<'/users/:id'>>().toEqualTypeOf<{ id: PathParamValue }>()
+  })
+
+  it('should accept any params if the URL is not a literal', () => {
+    expectTypeOf<PathParams<string>>().toEqualTypeOf<Record<string, PathParamValue>>()
+  })
+})
+
+describe('client.get(url, options)', () => {
+  it('should require path params of the URL', () => {
+    client.get('/users/:id', { pathParams: { id: 1 } })
+    client.get('/users/{id}/posts/:postId', { pathParams: { id: 1, postId: 'a' } })
+
+    // @ts-expect-error options are required
+    client.get('/users/:id')
+    // @ts-expect-error pathParams is required
+    client.get('/users/:id', { params: { a: 1 } })
+    // @ts-expect-error a param is missing
+    client.get('/users/:id/posts/:postId', { pathParams: { id: 1 } })
+    // @ts-expect-error the param has another name
+    client.get('/users/:id', { pathParams: { userId: 1 } })
+    // @ts-expect-error the value is not valid
+    client.get('/users/:id', { pathParams: { id: { value: 1 } } })
+  })
+
+  it('should not require options without path params', () => {
+    client.get('/users')
+    client.get('/users', { params: { page: 1 } })
+    client.get('/users' as string)
+  })
+
+  it('should require path params of body methods', () => {
+    client.post('/users/:id/posts', { title: 'a' }, { pathParams: { id: 1 } })
+
+    // @ts-expect-error options are required
+    client.put('/users/:id', { name: 'a' })
+    // @ts-expect-error a param is missing
+    client.patch('/users/:id', { name: 'a' }, { pathParams: {} })
+  })
+})
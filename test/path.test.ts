@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FetchClient, fillPathParams } from '../src'
+import server, { paths } from './server'
+
+const port = 8892
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+type QueryBody = {
+  url: string
+}
+
+describe('fillPathParams(url, params)', () => {
+  it('should replace ":name" placeholders', () => {
+    expect(fillPathParams('/users/:id/posts/:postId', { id: 1, postId: 2 })).toBe('/users/1/posts/2')
+  })
+
+  it('should replace "{name}" placeholders', () => {
+    expect(fillPathParams('/users/{id}/posts/{postId}', { id: 1, postId: 2 })).toBe('/users/1/posts/2')
+  })
+
+  it('should encode values', () => {
+    expect(fillPathParams('/files/:name', { name: 'a/b c' })).toBe('/files/a%2Fb%20c')
+  })
+
+  it('should ignore the scheme and port of absolute URL', () => {
+    expect(fillPathParams('http://localhost:8080/users/:id', { id: 1 })).toBe('http://localhost:8080/users/1')
+  })
+
+  it('should ignore placeholders in the query string', () => {
+    expect(fillPathParams('/users/:id?time=:now', { id: 1 })).toBe('/users/1?time=:now')
+  })
+
+  it('should throw an error if a param is missing', () => {
+    expect(() => fillPathParams('/users/:id', {})).toThrow('Missing path param "id" in URL "/users/:id"')
+  })
+})
+
+describe('options.pathParams', () => {
+  const client = new FetchClient({
+    baseUrl: serverUrl,
+    responseType: 'json'
+  })
+
+  it('should replace path params before prepending base URL', async () => {
+    const resp = await client.get<QueryBody>(`${paths.query}/:id/{name}`, {
+      pathParams: { id: 1, name: 'a b' }
+    })
+    expect(resp.body.url).toBe(`${paths.query}/1/a%20b`)
+  })
+
+  it('should work with params', async () => {
+    const resp = await client.get<QueryBody>(`${paths.query}/:id`, {
+      params: { a: 1 },
+      pathParams: { id: 1 }
+    })
+    expect(resp.body.url).toBe(`${paths.query}/1?a=1`)
+  })
+
+  it('should reject if a param is missing', async () => {
+    // Path params are not checked at compile time when the URL is not a literal.
+    await expect(client.get(`${paths.query}/:id` as string)).rejects.toThrow('Missing path param "id"')
+  })
+})
@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FetchClient, FetchProgressEvent } from '../src'
+import server, { paths } from './server'
+
+const port = 8897
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+describe('onDownloadProgress', () => {
+  it('should report received bytes with total from content-length', async () => {
+    const events: FetchProgressEvent[] = []
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    const resp = await client.get(paths.blob, {
+      responseType: 'blob',
+      onDownloadProgress: (event) => events.push(event)
+    })
+    expect(await (resp.body as Blob).text()).toBe('secret')
+    expect(events.length).toBeGreaterThan(0)
+    expect(events[events.length - 1].loaded).toBe(6)
+    expect(events[events.length - 1].total).toBe(6)
+    expect(events[events.length - 1].rate).toBeGreaterThan(0)
+  })
+
+  it('should report progress of JSON responses', async () => {
+    const events: FetchProgressEvent[] = []
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    const resp = await client.get(paths.resource, {
+      onDownloadProgress: (event) => events.push(event)
+    })
+    expect(resp.body.data).toStrictEqual({ id: 1 })
+    expect(resp.status).toBe(200)
+    expect(resp.original.ok).toBe(true)
+    expect(events[events.length - 1].loaded).toBe(Number(resp.headers['content-length']))
+  })
+
+  it('should report progress while reading a stream', async () => {
+    const events: FetchProgressEvent[] = []
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    const resp = await client.get(paths.blob, {
+      responseType: 'stream',
+      onDownloadProgress: (event) => events.push(event)
+    })
+    expect(events.length).toBe(0)
+    expect(await new Response(resp.body).text()).toBe('secret')
+    expect(events[events.length - 1].loaded).toBe(6)
+  })
+})
+
+describe('onUploadProgress', () => {
+  it('should report sent bytes of a string body', async () => {
+    const events: FetchProgressEvent[] = []
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    const resp = await client.post(paths.upload, 'hello world', {
+      headers: { 'content-type': 'text/plain' },
+      onUploadProgress: (event) => events.push(event)
+    })
+    expect(resp.body.size).toBe(11)
+    expect(resp.body.contentType).toBe('text/plain')
+    expect(events[events.length - 1].loaded).toBe(11)
+    expect(events[events.length - 1].total).toBe(11)
+  })
+
+  it('should report sent bytes of a Blob body', async () => {
+    const events: FetchProgressEvent[] = []
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    const blob = new Blob([new Uint8Array(1024)], { type: 'application/octet-stream' })
+    const resp = await client.post(paths.upload, blob, {
+      onUploadProgress: (event) => events.push(event)
+    })
+    expect(resp.body.size).toBe(1024)
+    expect(resp.body.contentType).toBe('application/octet-stream')
+    expect(events[events.length - 1].loaded).toBe(1024)
+    expect(events[events.length - 1].total).toBe(1024)
+  })
+
+  it('should report sent bytes of a JSON body', async () => {
+    const events: FetchProgressEvent[] = []
+    const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    const data = { name: 'test' }
+    await client.post(paths.upload, data, {
+      onUploadProgress: (event) => events.push(event)
+    })
+    expect(events[events.length - 1].loaded).toBe(JSON.stringify(data).length)
+  })
+})
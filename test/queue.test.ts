@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FetchClient, FetchResponseError, RequestQueue } from '../src'
+import server, { paths } from './server'
+
+const port = 8896
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+function wait (ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('RequestQueue', () => {
+  it('should limit the number of active requests', async () => {
+    const queue = new RequestQueue({ concurrency: 2 })
+    const releases = await Promise.all([
+      queue.acquire('/a'),
+      queue.acquire('/b')
+    ])
+    const third = queue.acquire('/c')
+    expect(queue.active).toBe(2)
+    expect(queue.size).toBe(1)
+
+    releases[0]()
+    const release = await third
+    expect(queue.active).toBe(2)
+    expect(queue.size).toBe(0)
+
+    release()
+    releases[1]()
+    expect(queue.active).toBe(0)
+  })
+
+  it('should start waiting requests by priority', async () => {
+    const queue = new RequestQueue({ concurrency: 1 })
+    const order: string[] = []
+    const release = await queue.acquire('/a')
+    const tasks = [
+      queue.acquire('/low', { priority: -1 }).then((r) => { order.push('low'); r() }),
+      queue.acquire('/normal').then((r) => { order.push('normal'); r() }),
+      queue.acquire('/high', { priority: 10 }).then((r) => { order.push('high'); r() }),
+      queue.acquire('/normal2').then((r) => { order.push('normal2'); r() })
+    ]
+    release()
+    await Promise.all(tasks)
+    expect(order).toEqual(['high', 'normal', 'normal2', 'low'])
+  })
+
+  it('should remove waiting request when signal is aborted', async () => {
+    const queue = new RequestQueue({ concurrency: 1 })
+    const release = await queue.acquire('/a')
+    const controller = new AbortController()
+    const waiting = queue.acquire('/b', { signal: controller.signal })
+    expect(queue.size).toBe(1)
+    controller.abort()
+    await expect(waiting).rejects.toBeDefined()
+    expect(queue.size).toBe(0)
+    release()
+  })
+
+  it('should limit the number of requests per interval', async () => {
+    const queue = new RequestQueue({ rateLimit: { limit: 2, interval: 100 } })
+    const startTime = Date.now()
+    const releases = await Promise.all([
+      queue.acquire('/a'),
+      queue.acquire('/b'),
+      queue.acquire('/c')
+    ])
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(45)
+    releases.forEach((release) => release())
+  })
+
+  it('should apply limits per host', async () => {
+    const queue = new RequestQueue({ concurrency: 1, perHost: true })
+    const a = await queue.acquire('http://a.test/1')
+    const b = await queue.acquire('http://b.test/1')
+    const a2 = queue.acquire('http://a.test/2')
+    expect(queue.active).toBe(2)
+    expect(queue.size).toBe(1)
+    a()
+    ;(await a2)()
+    b()
+  })
+
+  it('should pause the start of requests', async () => {
+    const queue = new RequestQueue()
+    queue.pause(50)
+    queue.pause(50, '/a')
+    const startTime = Date.now()
+    const release = await queue.acquire('/a')
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(45)
+    release()
+  })
+})
+
+describe('options.queue', () => {
+  it('should limit the number of concurrent requests', async () => {
+    const queue = new RequestQueue({ concurrency: 1 })
+    const client = new FetchClient({ baseUrl: serverUrl, queue })
+    const startTime = Date.now()
+    const promise = Promise.all([
+      client.get(`${paths.slow}?delay=50`),
+      client.get(`${paths.slow}?delay=50`)
+    ])
+    await wait(10)
+    expect(queue.active).toBe(1)
+    expect(queue.size).toBe(1)
+    await promise
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(95)
+    expect(queue.active).toBe(0)
+  })
+
+  it('should count streaming responses until the body is read', async () => {
+    const queue = new RequestQueue({ concurrency: 1 })
+    const client = new FetchClient({ baseUrl: serverUrl, queue })
+    const resp = await client.get<ReadableStream>(`${paths.slow}?delay=0`, { responseType: 'stream' })
+    const second = client.get(`${paths.slow}?delay=0`, { responseType: 'stream' })
+    await wait(10)
+    expect(queue.active).toBe(1)
+    expect(queue.size).toBe(1)
+
+    await new Response(resp.body).text()
+    const resp2 = await second
+    await resp2.body.cancel()
+    expect(queue.active).toBe(0)
+  })
+
+  it('should use options.queuePriority', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, queue: { concurrency: 1 } })
+    const order: number[] = []
+    await Promise.all([
+      client.get(`${paths.slow}?delay=20`).then(() => order.push(1)),
+      client.get(`${paths.slow}?delay=0`).then(() => order.push(2)),
+      client.get(`${paths.slow}?delay=0`, { queuePriority: 1 }).then(() => order.push(3))
+    ])
+    expect(order).toEqual([1, 3, 2])
+  })
+
+  it('should pause the queue when response has status 429 and Retry-After', async () => {
+    const client = new FetchClient({ baseUrl: serverUrl, queue: { concurrency: 10 } })
+    await expect(client.get(`${paths.flaky}?key=queue-429&failures=1&status=429&retryAfter=1`))
+      .rejects.toBeInstanceOf(FetchResponseError)
+    const startTime = Date.now()
+    await client.get(`${paths.slow}?delay=0`)
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(900)
+  })
+})
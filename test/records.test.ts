@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import { FetchClient, FetchParseError, FetchResponseError, MockAdapter, parseRecords } from '../src'
+
+/**
+ * Returns a stream of chunks, and the number of chunks read.
+ * @param chunks
+ */
+function createStream (chunks: Array<string | Uint8Array>): { pulls: () => number, stream: ReadableStream<Uint8Array> } {
+  const encoder = new TextEncoder()
+  let index = 0
+  const stream = new ReadableStream<Uint8Array>({
+    pull (controller) {
+      if (index < chunks.length) {
+        const chunk = chunks[index++]
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk)
+      } else {
+        controller.close()
+      }
+    }
+  }, { highWaterMark: 0 })
+  return { pulls: () => index, stream }
+}
+
+/**
+ * Returns all records of an iterable.
+ * @param records
+ */
+async function collect<T> (records: AsyncIterable<T>): Promise<T[]> {
+  const list: T[] = []
+
+  for await (const record of records) {
+    list.push(record)
+  }
+  return list
+}
+
+describe('parseRecords()', () => {
+  it('should parse NDJSON records split across chunks', async () => {
+    const { stream } = createStream(['{"id":1}\n{"i', 'd":2}\r\n\n', '{"id":3}'])
+    expect(await collect(parseRecords(stream, 'ndjson'))).toStrictEqual([{ id: 1 }, { id: 2 }, { id: 3 }])
+  })
+
+  it('should decode multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('{"name":"été ✓"}\n')
+    const { stream } = createStream([bytes.slice(0, 10), bytes.slice(10, 16), bytes.slice(16)])
+    expect(await collect(parseRecords(stream, 'ndjson'))).toStrictEqual([{ name: 'été ✓' }])
+  })
+
+  it('should parse JSON text sequences', async () => {
+    const { stream } = createStream(['\x1E{"id":1}\n\x1E"text"\n\x1E', '42\n'])
+    expect(await collect(parseRecords(stream, 'json-seq'))).toStrictEqual([{ id: 1 }, 'text', 42])
+  })
+
+  it('should reject truncated numbers in JSON text sequences', async () => {
+    const { stream } = createStream(['\x1E1\n\x1E42'])
+    await expect(collect(parseRecords(stream, 'json-seq'))).rejects.toThrow(FetchParseError)
+  })
+
+  it('should read chunks only when records are requested', async () => {
+    const { pulls, stream } = createStream(['{"id":1}\n', '{"id":2}\n', '{"id":3}\n'])
+    const records = parseRecords(stream, 'ndjson')
+    expect(pulls()).toBe(0)
+    await records.next()
+    expect(pulls()).toBe(1)
+    await records.return()
+  })
+
+  it('should throw a FetchParseError with the raw record', async () => {
+    const { stream } = createStream(['{"id":1}\n{invalid}\n{"id":3}\n'])
+    const records: unknown[] = []
+    let error: FetchParseError | undefined
+    try {
+      for await (const record of parseRecords(stream, 'ndjson', { status: 200 })) {
+        records.push(record)
+      }
+    } catch (e) {
+      error = e as FetchParseError
+    }
+    expect(records).toStrictEqual([{ id: 1 }])
+    expect(error).toBeInstanceOf(FetchParseError)
+    expect(error?.text).toBe('{invalid}')
+    expect(error?.status).toBe(200)
+  })
+
+  it('should skip invalid records', async () => {
+    const { stream } = createStream(['{"id":1}\n{invalid}\n{"id":3}\n'])
+    expect(await collect(parseRecords(stream, 'ndjson', { onParseError: 'skip' })))
+      .toStrictEqual([{ id: 1 }, { id: 3 }])
+  })
+})
+
+describe('responseType', () => {
+  const mock = new MockAdapter()
+    .on('GET', '/export.ndjson', {
+      body: '{"id":1}\n{"id":2}\n{bad}\n',
+      headers: { 'content-type': 'application/x-ndjson' }
+    })
+    .on('GET', '/export.json-seq', {
+      body: '\x1E{"id":1}\n\x1E{"id":2}\n',
+      headers: { 'content-type': 'application/json-seq' }
+    })
+    .on('GET', '/error', { body: { error: 'Forbidden' }, status: 403 })
+  const client = new FetchClient({
+    baseUrl: 'https://api.example.com',
+    fetch: mock.fetch
+  })
+
+  it('should return an async iterable of records with "ndjson"', async () => {
+    const resp = await client.get<AsyncIterable<{ id: number }>>('/export.ndjson', {
+      onParseError: 'skip',
+      responseType: 'ndjson'
+    })
+    expect(await collect(resp.body)).toStrictEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it('should throw a FetchParseError with request metadata', async () => {
+    const resp = await client.get<AsyncIterable<{ id: number }>>('/export.ndjson', { responseType: 'ndjson' })
+    const error = await collect(resp.body).catch((e) => e)
+    expect(error).toBeInstanceOf(FetchParseError)
+    expect(error.url).toBe('https://api.example.com/export.ndjson')
+  })
+
+  it('should return an async iterable of records with "json-seq"', async () => {
+    const resp = await client.get<AsyncIterable<{ id: number }>>('/export.json-seq', { responseType: 'json-seq' })
+    expect(await collect(resp.body)).toStrictEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it('should read the body of error responses as JSON', async () => {
+    const error = await client.get('/error', { responseType: 'ndjson' }).catch((e) => e)
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(error.response.body).toStrictEqual({ error: 'Forbidden' })
+  })
+})
@@ -0,0 +1,236 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import {
+  defaultRetryOptions,
+  FetchClient,
+  FetchNetworkError,
+  FetchResponseError,
+  parseRetryAfter
+} from '../src'
+import { computeRetryDelay } from '../src/retry'
+import server, { paths } from './server'
+
+const port = 8889
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+type FlakyBody = {
+  attempt: number
+  data?: unknown
+}
+
+let counter = 0
+
+function flakyUrl (failures: number, params?: Record<string, string>): string {
+  const query = new URLSearchParams({ key: String(counter++), failures: String(failures), ...params })
+  return `${serverUrl}${paths.flaky}?${query}`
+}
+
+describe('options.retry', () => {
+  describe('without retry', () => {
+    const client = new FetchClient({ responseType: 'json' })
+
+    it('should throw after the first failed attempt', async () => {
+      await expect(client.get(flakyUrl(1))).rejects.toBeInstanceOf(FetchResponseError)
+    })
+  })
+
+  describe('with retry = true', () => {
+    const client = new FetchClient({
+      responseType: 'json',
+      retry: true
+    })
+
+    it('should be disabled with request option retry = false', async () => {
+      await expect(client.get(flakyUrl(1), { retry: false })).rejects.toBeInstanceOf(FetchResponseError)
+    })
+  })
+
+  describe('with retry options', () => {
+    const onRetry = vi.fn()
+    const client = new FetchClient({
+      responseType: 'json',
+      retry: {
+        attempts: 3,
+        delay: 10,
+        onRetry
+      }
+    })
+
+    it('should retry until the request succeeds', async () => {
+      const resp = await client.get<FlakyBody>(flakyUrl(2))
+      expect(resp.status).toBe(200)
+      expect(resp.body.attempt).toBe(3)
+    })
+
+    it('should throw when attempts are exhausted', async () => {
+      let error: FetchResponseError | undefined
+      try {
+        await client.get(flakyUrl(3))
+      } catch (e) {
+        if (e instanceof FetchResponseError) {
+          error = e
+        }
+      }
+      expect(error).toBeInstanceOf(FetchResponseError)
+      expect(error?.response.body.attempt).toBe(3)
+    })
+
+    it('should call onRetry before each retry', async () => {
+      onRetry.mockClear()
+      await client.get(flakyUrl(2))
+      expect(onRetry).toHaveBeenCalledTimes(2)
+      expect(onRetry.mock.calls[0][0].attempt).toBe(1)
+      expect(onRetry.mock.calls[0][0].method).toBe('GET')
+      expect(onRetry.mock.calls[0][0].error).toBeInstanceOf(FetchResponseError)
+    })
+
+    it('should not retry non retryable status codes', async () => {
+      await expect(client.get(flakyUrl(1, { status: '400' }))).rejects.toBeInstanceOf(FetchResponseError)
+    })
+
+    it('should not retry non idempotent methods', async () => {
+      await expect(client.post(flakyUrl(1), { a: 1 })).rejects.toBeInstanceOf(FetchResponseError)
+    })
+
+    it('should retry network errors', async () => {
+      onRetry.mockClear()
+      await expect(client.get('http://localhost:1')).rejects.toBeInstanceOf(FetchNetworkError)
+      expect(onRetry).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry errors thrown before sending the request', async () => {
+      onRetry.mockClear()
+      await expect(client.put(flakyUrl(0), { a: 1n })).rejects.toBeInstanceOf(TypeError)
+      expect(onRetry).not.toHaveBeenCalled()
+    })
+
+    it('should not retry when the signal is aborted', async () => {
+      const controller = new AbortController()
+      onRetry.mockClear()
+      const promise = client.get(flakyUrl(2), { signal: controller.signal, retry: { delay: 1000 } })
+      setTimeout(() => controller.abort(), 50)
+      await expect(promise).rejects.toBeDefined()
+      expect(onRetry).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('with retry.methods', () => {
+    const client = new FetchClient({
+      responseType: 'json',
+      retry: {
+        delay: 10,
+        methods: ['POST']
+      }
+    })
+
+    it('should rebuild the JSON body on each attempt', async () => {
+      const data = { a: 1 }
+      const resp = await client.post<FlakyBody>(flakyUrl(1), data)
+      expect(resp.status).toBe(200)
+      expect(resp.body.attempt).toBe(2)
+      expect(resp.body.data).toEqual(data)
+    })
+  })
+
+  describe('with retry.shouldRetry', () => {
+    const client = new FetchClient({
+      responseType: 'json',
+      retry: {
+        delay: 10,
+        shouldRetry: (error) => error instanceof FetchResponseError && error.response.status === 400
+      }
+    })
+
+    it('should use shouldRetry to decide', async () => {
+      const resp = await client.get<FlakyBody>(flakyUrl(1, { status: '400' }))
+      expect(resp.body.attempt).toBe(2)
+      await expect(client.get(flakyUrl(1))).rejects.toBeInstanceOf(FetchResponseError)
+    })
+  })
+
+  describe('with Retry-After header', () => {
+    const onRetry = vi.fn()
+    const client = new FetchClient({
+      responseType: 'json',
+      retry: {
+        delay: 10,
+        maxDelay: 2000,
+        onRetry
+      }
+    })
+
+    it('should use the Retry-After delay', async () => {
+      const resp = await client.get<FlakyBody>(flakyUrl(1, { status: '429', retryAfter: '1' }))
+      expect(resp.body.attempt).toBe(2)
+      expect(onRetry.mock.calls[0][0].delay).toBe(1000)
+    })
+
+    it('should not retry when Retry-After exceeds maxDelay', async () => {
+      await expect(client.get(flakyUrl(1, { status: '429', retryAfter: '60' })))
+        .rejects.toBeInstanceOf(FetchResponseError)
+    })
+  })
+
+  describe('with options.transformError', () => {
+    const transformError = vi.fn((error: FetchResponseError) => error)
+    const client = new FetchClient({
+      responseType: 'json',
+      retry: { delay: 10 },
+      transformError
+    })
+
+    it('should transform only the last error', async () => {
+      await expect(client.get(flakyUrl(3))).rejects.toBeInstanceOf(FetchResponseError)
+      expect(transformError).toHaveBeenCalledTimes(1)
+    })
+  })
+})
+
+describe('computeRetryDelay(options, attempt)', () => {
+  const options = { ...defaultRetryOptions, delay: 100, jitter: 0 }
+
+  it('should increase the delay exponentially', () => {
+    expect(computeRetryDelay(options, 1)).toBe(100)
+    expect(computeRetryDelay(options, 2)).toBe(200)
+    expect(computeRetryDelay(options, 3)).toBe(400)
+  })
+
+  it('should not exceed maxDelay', () => {
+    expect(computeRetryDelay({ ...options, maxDelay: 300 }, 5)).toBe(300)
+  })
+
+  it('should randomize the delay with jitter', () => {
+    const delay = computeRetryDelay({ ...options, jitter: 0.5 }, 1)
+    expect(delay).toBeGreaterThanOrEqual(50)
+    expect(delay).toBeLessThanOrEqual(100)
+  })
+})
+
+describe('parseRetryAfter(value)', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000)
+  })
+
+  it('should parse HTTP date', () => {
+    const delay = parseRetryAfter(new Date(Date.now() + 10000).toUTCString())
+    expect(delay).toBeGreaterThan(8000)
+    expect(delay).toBeLessThanOrEqual(10000)
+  })
+
+  it('should return undefined for invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined()
+    expect(parseRetryAfter('invalid')).toBeUndefined()
+  })
+})
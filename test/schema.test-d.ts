@@ -0,0 +1,45 @@
+import { describe, expectTypeOf, it } from 'vitest'
+import { FetchClient, FetchClientResponse, SchemaOutput, StandardSchemaV1 } from '../src'
+
+type User = {
+  id: number
+  name: string
+}
+
+declare const userSchema: StandardSchemaV1<unknown, User>
+
+const client = new FetchClient()
+
+describe('SchemaOutput<S, R>', () => {
+  it('should return the output of the schema', () => {
+    expectTypeOf<SchemaOutput<typeof userSchema, string>>().toEqualTypeOf<User>()
+  })
+
+  it('should return R without schema', () => {
+    expectTypeOf<SchemaOutput<undefined, string>>().toEqualTypeOf<string>()
+  })
+})
+
+describe('options.schema', () => {
+  it('should infer the type of the body from the schema', () => {
+    expectTypeOf(client.get('/users/1', { schema: userSchema })).resolves.toEqualTypeOf<FetchClientResponse<User>>()
+    expectTypeOf(client.post('/users', { name: 'john' }, { schema: userSchema })).resolves.toEqualTypeOf<FetchClientResponse<User>>()
+    expectTypeOf(client.fetch('/users/1', { schema: userSchema })).resolves.toEqualTypeOf<FetchClientResponse<User>>()
+  })
+
+  it('should infer the type of the body with path params', () => {
+    expectTypeOf(client.get('/users/:id', { pathParams: { id: 1 }, schema: userSchema }))
+      .resolves.toEqualTypeOf<FetchClientResponse<User>>()
+  })
+
+  it('should use the type of the body without schema', () => {
+    expectTypeOf(client.get<User>('/users/1')).resolves.toEqualTypeOf<FetchClientResponse<User>>()
+  })
+
+  it('should reject values that are not schemas', () => {
+    // @ts-expect-error not a schema
+    client.get('/users/1', { schema: { parse: (value: unknown) => value } })
+    // @ts-expect-error not a schema
+    client.get('/users/1', { errorSchema: (value: unknown) => value })
+  })
+})
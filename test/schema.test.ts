@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  FetchClient,
+  FetchResponseError,
+  FetchValidationError,
+  MockAdapter,
+  StandardSchemaResult,
+  StandardSchemaV1
+} from '../src'
+import server, { paths } from './server'
+
+const port = 8899
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+/**
+ * Returns a minimal Standard Schema validator.
+ * @param validate
+ */
+function createSchema<T> (validate: (value: any) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>): StandardSchemaV1<unknown, T> {
+  return {
+    '~standard': {
+      validate,
+      vendor: 'test',
+      version: 1
+    }
+  }
+}
+
+const resourceSchema = createSchema((value) => (
+  typeof value?.data?.id === 'number'
+    ? { value: { id: value.data.id as number, validated: true } }
+    : { issues: [{ message: 'Expected number', path: ['data', { key: 'id' }] }] }
+))
+
+describe('schema', () => {
+  const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+
+  it('should return the value validated by the schema', async () => {
+    const resp = await client.get(paths.resource, { schema: resourceSchema })
+    expect(resp.body).toStrictEqual({ id: 1, validated: true })
+    expect(resp.status).toBe(200)
+  })
+
+  it('should support async validation', async () => {
+    const schema = createSchema(async (value) => ({ value: value.method as string }))
+    const resp = await client.get(paths.resource, { schema })
+    expect(resp.body).toBe('GET')
+  })
+
+  it('should throw a FetchValidationError if body is invalid', async () => {
+    const error = await client.get(paths.headers, { schema: resourceSchema })
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(FetchValidationError)
+    expect(error.message).toBe('Invalid response body: data.id: Expected number')
+    expect(error.issues).toStrictEqual([{ message: 'Expected number', path: ['data', { key: 'id' }] }])
+    expect(error.response.status).toBe(200)
+    expect(error.response.body.headers).toBeDefined()
+  })
+
+  it('should not validate error responses with the schema', async () => {
+    const error = await client.get(paths.error, { schema: resourceSchema })
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(FetchResponseError)
+  })
+})
+
+describe('errorSchema', () => {
+  const client = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+  const errorSchema = createSchema((value) => (
+    typeof value?.error === 'string'
+      ? { value: { code: 'E_' + value.error } }
+      : { issues: [{ message: 'Expected error' }] }
+  ))
+
+  it('should validate the body of error responses', async () => {
+    const error = await client.get(paths.error, { errorSchema, params: { error: 'oops' } })
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(FetchResponseError)
+    expect(error.response.status).toBe(400)
+    expect(error.response.body).toStrictEqual({ code: 'E_oops' })
+  })
+
+  it('should throw a FetchValidationError if error body is invalid', async () => {
+    const error = await client.get(paths.error, {
+      errorSchema: createSchema(() => ({ issues: [{ message: 'Invalid error' }] }))
+    }).catch((e) => e)
+    expect(error).toBeInstanceOf(FetchValidationError)
+    expect(error.message).toBe('Invalid response body: Invalid error')
+    expect(error.response.status).toBe(400)
+  })
+  it('should validate the error body after the last attempt only', async () => {
+    const mock = new MockAdapter()
+      .on('GET', '/flaky', { body: { message: 'Unavailable' }, status: 503 }, { times: 2 })
+      .on('GET', '/flaky', { body: { ok: true } })
+    const retryClient = new FetchClient({
+      baseUrl: 'https://api.example.com',
+      fetch: mock.fetch,
+      responseType: 'json',
+      transformError: (error, response) => new FetchResponseError(`Transformed: ${JSON.stringify(response.body)}`, response)
+    })
+    const resp = await retryClient.get('/flaky', { errorSchema, retry: { attempts: 3, delay: 0 } })
+    expect(resp.body).toStrictEqual({ ok: true })
+
+    mock.on('GET', '/error', { body: { error: 'oops' }, status: 503 })
+    const error = await retryClient.get('/error', { errorSchema, retry: { attempts: 2, delay: 0 } })
+      .catch((e) => e)
+    expect(error.message).toBe('Transformed: {"code":"E_oops"}')
+  })
+})
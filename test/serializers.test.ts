@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  BodySerializer,
+  FetchClient,
+  FetchParseError,
+  getSerializer,
+  jsonSerializer,
+  MockAdapter,
+  toFormData
+} from '../src'
+import server, { paths } from './server'
+
+const port = 8905
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+/**
+ * A serializer of a "key=value" format, one pair per line.
+ */
+const keyValueSerializer: BodySerializer = {
+  deserialize: (body) => Object.fromEntries(new TextDecoder().decode(body)
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => line.split('='))),
+  serialize: (body) => Object.entries(body as Record<string, string>)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n')
+}
+
+function createClient (mock: MockAdapter): FetchClient {
+  return new FetchClient({
+    baseUrl: 'https://api.example.com',
+    fetch: mock.fetch,
+    responseType: 'auto',
+    serializers: {
+      'application/json': jsonSerializer({
+        replacer: (key, value) => (key === 'password' ? undefined : value),
+        reviver: (key, value) => (key === 'createdAt' ? new Date(value as string) : value)
+      }),
+      'text/x-key-value': keyValueSerializer
+    }
+  })
+}
+
+describe('toFormData()', () => {
+  it('should return form data from a plain object', () => {
+    const file = new File(['content'], 'a.txt', { type: 'text/plain' })
+    const formData = toFormData({ file, tags: ['a', 'b'], user: { name: 'john' }, empty: null })
+    expect(formData.get('file')).toBeInstanceOf(File)
+    expect((formData.get('file') as File).name).toBe('a.txt')
+    expect(formData.getAll('tags')).toStrictEqual(['a', 'b'])
+    expect(formData.get('user[name]')).toBe('john')
+    expect(formData.has('empty')).toBe(false)
+  })
+})
+
+describe('getSerializer()', () => {
+  it('should return the serializer of a content type', () => {
+    expect(getSerializer('application/json; charset=utf-8')?.serialize?.({ a: 1 })).toBe('{"a":1}')
+    expect(getSerializer('application/x-www-form-urlencoded')?.serialize?.({ a: [1, 2] })).toBe('a=1&a=2')
+    expect(getSerializer('image/png')).toBeUndefined()
+  })
+})
+
+describe('serializers', () => {
+  const mock = new MockAdapter()
+    .on('*', '/echo', (request) => ({
+      body: {
+        body: request.body instanceof FormData ? 'FormData' : request.body,
+        contentType: request.headers.get('content-type')
+      }
+    }))
+    .on('GET', '/user', { body: { createdAt: '2024-01-01T00:00:00.000Z', name: 'john' } })
+    .on('GET', '/key-value', { body: 'a=1\nb=2\n', headers: { 'content-type': 'text/x-key-value' } })
+    .on('GET', '/invalid', { body: '{', headers: { 'content-type': 'application/json' } })
+  const client = createClient(mock)
+
+  it('should serialize JSON with the replacer', async () => {
+    const resp = await client.post('/echo', { name: 'john', password: 'secret' })
+    expect(resp.body).toStrictEqual({ body: { name: 'john' }, contentType: 'application/json' })
+  })
+
+  it('should serialize plain objects to application/x-www-form-urlencoded', async () => {
+    const resp = await client.post('/echo', { name: 'john doe', tags: ['a', 'b'] }, {
+      headers: { 'content-type': 'application/x-www-form-urlencoded' }
+    })
+    expect(resp.body.body).toBe('name=john%20doe&tags=a&tags=b')
+  })
+
+  it('should serialize plain objects containing files to multipart/form-data', async () => {
+    const resp = await client.post('/echo', { file: new Blob(['content']), name: 'john' })
+    expect(resp.body.body).toBe('FormData')
+  })
+
+  it('should serialize and deserialize custom content types', async () => {
+    const resp = await client.post('/echo', { a: '1' }, { headers: { 'content-type': 'text/x-key-value' } })
+    expect(resp.body).toStrictEqual({ body: 'a=1', contentType: 'text/x-key-value' })
+    expect((await client.get('/key-value')).body).toStrictEqual({ a: '1', b: '2' })
+  })
+
+  it('should deserialize JSON with the reviver', async () => {
+    const resp = await client.get('/user')
+    expect(resp.body.createdAt).toBeInstanceOf(Date)
+  })
+
+  it('should throw a FetchParseError if the body cannot be deserialized', async () => {
+    const error = await client.get('/invalid').catch((e) => e)
+    expect(error).toBeInstanceOf(FetchParseError)
+    expect(error.text).toBe('{')
+  })
+
+  it('should send multipart/form-data with a boundary', async () => {
+    const c = new FetchClient({ baseUrl: serverUrl, responseType: 'json' })
+    const resp = await c.post(paths.upload, { file: new File(['content'], 'a.txt'), name: 'john' })
+    expect(resp.body.contentType).toMatch(/^multipart\/form-data; boundary=/)
+  })
+})
@@ -10,20 +10,31 @@ export type RequestInfo = {
   data?: unknown
 }
 
-const server = fastify()
+const server = fastify({ forceCloseConnections: true })
 
 // Add support for file uploading.
 server.register(fastifyMultipart)
 
 export const paths = {
   blob: '/blob',
+  cache: '/cache',
+  cookies: '/cookies',
+  counter: '/counter',
   error: '/error',
+  events: '/events',
+  flaky: '/flaky',
   formData: '/formData',
   headers: '/headers',
+  items: '/items',
   noBody: '/no-body',
+  protected: '/protected',
+  query: '/query',
   resources: '/resources',
   resource: '/resources/1',
-  resourceWithoutContentType: '/resourceWithoutContentType'
+  resourceWithoutContentType: '/resourceWithoutContentType',
+  slow: '/slow',
+  slowBody: '/slow-body',
+  upload: '/upload'
 }
 
 server.all(paths.error, (req, rep) => {
@@ -33,10 +44,185 @@ server.all(paths.error, (req, rep) => {
     .send({ error: query.error || 'Bad Request' })
 })
 
+// Send events after Last-Event-ID, and close the connection after "count" events.
+// Respond with status 204 when "total" events have been sent.
+server.all(paths.events, (req, rep) => {
+  const query = req.query as Record<string, string>
+  const lastId = Number(req.headers['last-event-id'] ?? 0)
+  const count = Number(query.count ?? 2)
+  const total = Number(query.total ?? 4)
+
+  if (lastId >= total) {
+    rep.status(204).send()
+    return
+  }
+  let body = ': comment\n\n'
+
+  for (let id = lastId + 1; id <= Math.min(lastId + count, total); id++) {
+    body += query.retry ? `retry: ${query.retry}\n` : ''
+    body += `event: tick\nid: ${id}\ndata: {"id":${id},\ndata: "method":"${req.method}"}\n\n`
+  }
+  rep.hijack()
+  rep.raw.writeHead(200, { 'content-type': 'text/event-stream' })
+
+  // Keep the connection open.
+  if (query.hold) {
+    rep.raw.write(body)
+  } else {
+    rep.raw.end(body)
+  }
+})
+
+// Count requests by key to check cache usage.
+const cacheHits: Record<string, { hits: number, notModified: number }> = {}
+
+server.all(paths.cache, (req, rep) => {
+  const query = req.query as Record<string, string>
+  const key = query.key
+  const stats = cacheHits[key] = cacheHits[key] ?? { hits: 0, notModified: 0 }
+
+  if (req.method !== 'GET') {
+    rep.status(200).send({ method: req.method })
+    return
+  }
+  if (query.cacheControl) {
+    rep.header('cache-control', query.cacheControl)
+  }
+  if (query.etag) {
+    rep.header('etag', `"${query.etag}"`)
+  }
+  if (query.vary) {
+    rep.header('vary', query.vary)
+  }
+  stats.hits++
+
+  if (query.etag && req.headers['if-none-match'] === `"${query.etag}"`) {
+    stats.notModified++
+    rep.status(304).send()
+  } else {
+    rep.status(200).send({ ...stats })
+  }
+})
+
+// Return received cookies, set cookies passed in query (set=a=1&set=b=2), and redirect to "redirect".
+server.all(`${paths.cookies}/*`, (req, rep) => {
+  const query = req.query as Record<string, string | string[]>
+  const cookies = query.set ?? []
+
+  rep.header('set-cookie', Array.isArray(cookies) ? cookies : [cookies])
+
+  if (query.redirect) {
+    rep.redirect(String(query.redirect), Number(query.status ?? 302))
+  } else {
+    rep.send({ cookie: req.headers.cookie ?? null, method: req.method, url: req.url })
+  }
+})
+
+// Count requests by key, and respond after a delay.
+const counters: Record<string, number> = {}
+
+server.all(paths.counter, async (req) => {
+  const query = req.query as Record<string, string>
+  counters[query.key] = (counters[query.key] ?? 0) + 1
+  const hits = counters[query.key]
+  await new Promise((resolve) => setTimeout(resolve, Number(query.delay ?? 0)))
+  return { hits }
+})
+
+// Count attempts by key to fail the first requests.
+const attempts: Record<string, number> = {}
+
+server.all(paths.flaky, (req, rep) => {
+  const query = req.query as Record<string, string>
+  const key = query.key
+  attempts[key] = (attempts[key] ?? 0) + 1
+
+  if (attempts[key] <= Number(query.failures ?? 0)) {
+    if (query.retryAfter) {
+      rep.header('retry-after', query.retryAfter)
+    }
+    rep.status(Number(query.status ?? 503))
+      .send({ error: 'Unavailable', attempt: attempts[key] })
+  } else {
+    rep.status(200)
+      .send({ attempt: attempts[key], data: req.body })
+  }
+})
+
+// Return a page of items (1..total) using offset, page or cursor params.
+server.get(paths.items, (req, rep) => {
+  const query = req.query as Record<string, string>
+  const total = Number(query.total ?? 25)
+  const size = Number(query.limit ?? query.size ?? 10)
+  const start = query.cursor != null
+    ? Number(query.cursor)
+    : query.page != null
+      ? (Number(query.page) - 1) * size
+      : Number(query.offset ?? 0)
+  const items: number[] = []
+
+  for (let i = start + 1; i <= Math.min(start + size, total); i++) {
+    items.push(i)
+  }
+  const hasNext = start + size < total
+
+  if (query.style === 'cursor') {
+    rep.send({ items, next: hasNext ? String(start + size) : null })
+    return
+  }
+  if (query.style === 'link' && hasNext) {
+    const page = Number(query.page ?? 1) + 1
+    rep.header('link', `<${paths.items}?style=link&page=${page}&size=${size}&total=${total}>; rel="next", <${paths.items}>; rel="first"`)
+  }
+  rep.send(items)
+})
+
+// Reject requests without the expected authorization header.
+server.all(paths.protected, (req, rep) => {
+  const query = req.query as Record<string, string>
+  const authorization = req.headers[query.header ?? 'authorization']
+
+  if (authorization !== query.expected) {
+    rep.status(401).send({ error: 'Unauthorized' })
+  } else {
+    rep.status(200).send({ authorization, data: req.body })
+  }
+})
+
 server.all(paths.noBody, (req, rep) => {
   rep.status(204).send()
 })
 
+server.get(paths.slow, async (req) => {
+  const query = req.query as Record<string, string>
+  await new Promise((resolve) => setTimeout(resolve, Number(query.delay ?? 0)))
+  return { delay: Number(query.delay ?? 0) }
+})
+
+server.get(paths.slowBody, (req, rep) => {
+  const query = req.query as Record<string, string>
+  rep.hijack()
+  rep.raw.writeHead(200, { 'content-type': 'application/json' })
+  rep.raw.write('{"delay":')
+  setTimeout(() => {
+    rep.raw.end(`${Number(query.delay ?? 0)}}`)
+  }, Number(query.delay ?? 0))
+})
+
+// Return the size of the received body.
+server.register(async (instance) => {
+  instance.addContentTypeParser('*', { parseAs: 'buffer' }, (req, body, done) => {
+    done(null, body)
+  })
+  instance.post(paths.upload, (req) => {
+    const body = req.body as Buffer | string | undefined
+    return {
+      contentType: req.headers['content-type'],
+      size: typeof body === 'string' ? Buffer.byteLength(body) : body?.length ?? 0
+    }
+  })
+})
+
 server.get(paths.blob, () => {
   return Buffer.from('secret')
 })
@@ -47,6 +233,14 @@ server.get(paths.formData, (req, rep) => {
   rep.send(`date=${Date.now()}`)
 })
 
+server.get(paths.query, (req) => {
+  return { url: req.url }
+})
+
+server.get(`${paths.query}/*`, (req) => {
+  return { url: req.url }
+})
+
 server.get(paths.headers, (req): RequestInfo => {
   return { headers: req.headers }
 })
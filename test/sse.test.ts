@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FetchClient, FetchError, FetchNetworkError, SseEvent, SseParser } from '../src'
+import server, { paths } from './server'
+
+const port = 8904
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+const client = new FetchClient({
+  baseUrl: serverUrl
+})
+
+/**
+ * Returns all events of an iterator.
+ * @param events
+ */
+async function collect (events: AsyncIterable<SseEvent>): Promise<SseEvent[]> {
+  const list: SseEvent[] = []
+
+  for await (const event of events) {
+    list.push(event)
+  }
+  return list
+}
+
+describe('SseParser', () => {
+  it('should parse events split across chunks', () => {
+    const parser = new SseParser()
+    expect(parser.parse('﻿data: first\r')).toStrictEqual([])
+    expect(parser.parse('\ndata:second\r\n\r')).toStrictEqual([
+      { data: 'first\nsecond', event: 'message', id: '' }
+    ])
+    expect(parser.parse('\nevent: update\nid: 7\nretry: 100\ndata: x\n\n')).toStrictEqual([
+      { data: 'x', event: 'update', id: '7', retry: 100 }
+    ])
+    expect(parser.retry).toBe(100)
+  })
+
+  it('should ignore comments, unknown fields and events without data', () => {
+    const parser = new SseParser()
+    expect(parser.parse(': ping\n\nfoo: bar\nid: 1\n\ndata\n\n')).toStrictEqual([
+      { data: '', event: 'message', id: '1' }
+    ])
+    expect(parser.lastEventId).toBe('1')
+  })
+})
+
+describe('sse()', () => {
+  it('should return events and reconnect with Last-Event-ID', async () => {
+    const opened: number[] = []
+    const events = await collect(client.sse(paths.events, {
+      onOpen: (response) => opened.push(response.status),
+      retryDelay: 10
+    }))
+    expect(events.map((e) => e.id)).toStrictEqual(['1', '2', '3', '4'])
+    expect(events[0]).toStrictEqual({ data: '{"id":1,\n"method":"GET"}', event: 'tick', id: '1' })
+    expect(opened).toStrictEqual([200, 200])
+  })
+
+  it('should send the first Last-Event-ID and request body', async () => {
+    const events = await collect(client.sse(paths.events, {
+      body: { query: 'hello' },
+      lastEventId: '2',
+      method: 'POST',
+      retryDelay: 10
+    }))
+    expect(events.map((e) => e.id)).toStrictEqual(['3', '4'])
+    expect(JSON.parse(events[0].data).method).toBe('POST')
+  })
+
+  it('should follow the retry interval sent by the server', async () => {
+    const startTime = Date.now()
+    const events = await collect(client.sse(paths.events, {
+      params: { retry: 10 },
+      retryDelay: 5000
+    }))
+    expect(events).toHaveLength(4)
+    expect(events[0].retry).toBe(10)
+    expect(Date.now() - startTime).toBeLessThan(1000)
+  })
+
+  it('should not reconnect when reconnect is false', async () => {
+    const events = await collect(client.sse(paths.events, { reconnect: false }))
+    expect(events).toHaveLength(2)
+  })
+
+  it('should limit the number of consecutive reconnections', async () => {
+    let attempts = 0
+    const c = new FetchClient({
+      middlewares: [(context, next) => {
+        attempts++
+        return next()
+      }]
+    })
+    await expect(collect(c.sse('http://localhost:1/events', { maxRetries: 2, retryDelay: 10 })))
+      .rejects.toThrow(FetchNetworkError)
+    expect(attempts).toBe(3)
+  })
+
+  it('should stop without error when aborted', async () => {
+    const controller = new AbortController()
+    const events: SseEvent[] = []
+
+    for await (const event of client.sse(paths.events, { params: { hold: 1 }, signal: controller.signal })) {
+      events.push(event)
+      if (events.length === 2) controller.abort()
+    }
+    expect(events).toHaveLength(2)
+  })
+
+  it('should stop when the iteration is stopped', async () => {
+    for await (const event of client.sse(paths.events, { params: { hold: 1 } })) {
+      expect(event.id).toBe('1')
+      break
+    }
+  })
+
+  it('should throw an error if the content type is not an event stream', async () => {
+    await expect(collect(client.sse(paths.resource))).rejects.toThrow(FetchError)
+  })
+})
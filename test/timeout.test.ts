@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { FetchClient, FetchTimeoutError, MockAdapter } from '../src'
+import server, { paths } from './server'
+
+const port = 8890
+const serverUrl = `http://localhost:${port}`
+
+// Handle server lifecycle
+
+beforeAll(async () => {
+  await server.listen({
+    port,
+    host: 'localhost'
+  })
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+describe('options.timeout', () => {
+  const client = new FetchClient({
+    baseUrl: serverUrl,
+    responseType: 'json',
+    timeout: 50
+  })
+
+  it('should throw a FetchTimeoutError when headers are not received in time', async () => {
+    let error: FetchTimeoutError | undefined
+    try {
+      await client.get(`${paths.slow}?delay=200`)
+    } catch (e) {
+      if (e instanceof FetchTimeoutError) {
+        error = e
+      }
+    }
+    expect(error).toBeInstanceOf(FetchTimeoutError)
+    expect(error?.url).toBe(`${serverUrl}${paths.slow}?delay=200`)
+    expect(error?.method).toBe('GET')
+    expect(error?.timeout).toBe(50)
+    expect(error?.elapsed).toBeGreaterThanOrEqual(45)
+  })
+
+  it('should not throw when headers are received in time', async () => {
+    const resp = await client.get(`${paths.slow}?delay=0`)
+    expect(resp.status).toBe(200)
+  })
+
+  it('should not apply to body parsing', async () => {
+    const resp = await client.get(`${paths.slowBody}?delay=100`)
+    expect(resp.body).toEqual({ delay: 100 })
+  })
+
+  it('should be overridden by request option', async () => {
+    const resp = await client.get(`${paths.slow}?delay=100`, { timeout: 1000 })
+    expect(resp.status).toBe(200)
+  })
+
+  it('should be combined with the request signal', async () => {
+    const controller = new AbortController()
+    const promise = client.get(`${paths.slow}?delay=200`, {
+      signal: controller.signal,
+      timeout: 1000
+    })
+    controller.abort()
+    await expect(promise).rejects.not.toBeInstanceOf(FetchTimeoutError)
+    await expect(promise).rejects.toBeDefined()
+  })
+
+  describe('with options.retry', () => {
+    const onRetry = vi.fn()
+    const retryClient = new FetchClient({
+      baseUrl: serverUrl,
+      retry: { attempts: 2, delay: 10, onRetry },
+      timeout: 50
+    })
+
+    it('should retry timed out attempts', async () => {
+      await expect(retryClient.get(`${paths.slow}?delay=200`)).rejects.toBeInstanceOf(FetchTimeoutError)
+      expect(onRetry).toHaveBeenCalledTimes(1)
+    })
+  })
+})
+
+describe('options.totalTimeout', () => {
+  const client = new FetchClient({
+    baseUrl: serverUrl,
+    responseType: 'json',
+    totalTimeout: 100
+  })
+
+  it('should throw a FetchTimeoutError when body is not received in time', async () => {
+    let error: FetchTimeoutError | undefined
+    try {
+      await client.get(`${paths.slowBody}?delay=300`)
+    } catch (e) {
+      if (e instanceof FetchTimeoutError) {
+        error = e
+      }
+    }
+    expect(error).toBeInstanceOf(FetchTimeoutError)
+    expect(error?.timeout).toBe(100)
+    expect(error?.url).toBe(`${serverUrl}${paths.slowBody}?delay=300`)
+  })
+
+  it('should include retries', async () => {
+    const onRetry = vi.fn()
+    const promise = client.get(`${paths.slow}?delay=60`, {
+      retry: { attempts: 5, delay: 10, onRetry },
+      timeout: 50
+    })
+    await expect(promise).rejects.toBeInstanceOf(FetchTimeoutError)
+    expect(onRetry.mock.calls.length).toBeLessThan(4)
+  })
+
+  it('should not throw when the request completes in time', async () => {
+    const resp = await client.get(`${paths.slowBody}?delay=10`)
+    expect(resp.body).toEqual({ delay: 10 })
+  })
+})
+
+describe('timeouts of streaming responses', () => {
+  const mock = new MockAdapter()
+    .on('GET', '/stream', { body: 'data', headers: { 'content-type': 'text/plain' } })
+    .on('GET', '/records', { body: '{"a":1}\n{"a":2}\n', headers: { 'content-type': 'application/x-ndjson' } })
+  const client = new FetchClient({
+    baseUrl: 'https://api.example.com',
+    fetch: mock.fetch,
+    timeout: 1000,
+    totalTimeout: 1000
+  })
+
+  /**
+   * Returns a signal counting its abort listeners.
+   */
+  function createSignal (): { listeners: () => number, signal: AbortSignal } {
+    const { signal } = new AbortController()
+    const add = vi.spyOn(signal, 'addEventListener')
+    const remove = vi.spyOn(signal, 'removeEventListener')
+    return { listeners: () => add.mock.calls.length - remove.mock.calls.length, signal }
+  }
+
+  it('should detach timeouts from the signal when the stream is read', async () => {
+    const { listeners, signal } = createSignal()
+    const resp = await client.get<ReadableStream>('/stream', { responseType: 'stream', signal })
+    expect(listeners()).toBeGreaterThan(0)
+    expect(await new Response(resp.body).text()).toBe('data')
+    expect(listeners()).toBe(0)
+  })
+
+  it('should detach the timeout of the attempt from the signal when the stream is read', async () => {
+    const { listeners, signal } = createSignal()
+    const other = new FetchClient({ baseUrl: 'https://api.example.com', fetch: mock.fetch, timeout: 1000 })
+    const resp = await other.get<ReadableStream>('/stream', { responseType: 'stream', signal })
+    expect(listeners()).toBeGreaterThan(0)
+    expect(await new Response(resp.body).text()).toBe('data')
+    expect(listeners()).toBe(0)
+  })
+
+  it('should detach timeouts from the signal when the stream is cancelled', async () => {
+    const { listeners, signal } = createSignal()
+    const resp = await client.get<ReadableStream>('/stream', { responseType: 'stream', signal })
+    await resp.body.cancel()
+    expect(listeners()).toBe(0)
+  })
+
+  it('should detach timeouts from the signal when the iteration of records is stopped', async () => {
+    const { listeners, signal } = createSignal()
+    const resp = await client.get<AsyncIterable<unknown>>('/records', { responseType: 'ndjson', signal })
+
+    for await (const record of resp.body) {
+      expect(record).toStrictEqual({ a: 1 })
+      break
+    }
+    expect(listeners()).toBe(0)
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import {
+  FetchClient,
+  FetchResponseError,
+  formatTraceparent,
+  injectTraceContext,
+  MockAdapter,
+  TraceAttributes,
+  Tracer,
+  TraceSpan
+} from '../src'
+
+type RecordedSpan = TraceSpan & {
+  attributes: TraceAttributes
+  ended: boolean
+  exceptions: Array<Error | string>
+  kind?: number
+  name: string
+  status?: { code: number, message?: string }
+}
+
+/**
+ * Returns a tracer recording spans.
+ */
+function createTracer (): Tracer & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = []
+  return {
+    spans,
+    startSpan (name, options) {
+      const index = spans.length + 1
+      const span: RecordedSpan = {
+        attributes: { ...options?.attributes },
+        end () {
+          span.ended = true
+        },
+        ended: false,
+        exceptions: [],
+        kind: options?.kind,
+        name,
+        recordException (exception) {
+          span.exceptions.push(exception)
+        },
+        setAttribute (key, value) {
+          span.attributes[key] = value
+        },
+        setStatus (status) {
+          span.status = status
+        },
+        spanContext: () => ({
+          spanId: index.toString(16).padStart(16, '0'),
+          traceFlags: 1,
+          traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+          traceState: { serialize: () => 'vendor=value' }
+        })
+      }
+      spans.push(span)
+      return span
+    }
+  }
+}
+
+/**
+ * A tracer that does not record spans (like the tracer of the OpenTelemetry API without SDK).
+ */
+const noopTracer: Tracer = {
+  startSpan: () => ({
+    end: () => undefined,
+    recordException: () => undefined,
+    setAttribute: () => undefined,
+    setStatus: () => undefined,
+    spanContext: () => ({
+      spanId: '0000000000000000',
+      traceFlags: 0,
+      traceId: '00000000000000000000000000000000'
+    })
+  })
+}
+
+const mock = new MockAdapter()
+  .on('GET', '/users', (request) => ({
+    body: {
+      traceparent: request.headers.get('traceparent'),
+      tracestate: request.headers.get('tracestate')
+    }
+  }))
+  .on('GET', '/flaky', { status: 503 }, { times: 1 })
+  .on('GET', '/flaky', { body: {} })
+  .on('GET', '/missing', { status: 404 })
+  .on('GET', '/invalid', { body: 'invalid', headers: { 'content-type': 'application/json' } })
+
+describe('tracer', () => {
+  it('should create a client span and inject the trace context', async () => {
+    const tracer = createTracer()
+    const client = new FetchClient({ baseUrl: 'https://api.example.com:8443', fetch: mock.fetch, responseType: 'json', tracer })
+    const resp = await client.get('/users')
+
+    expect(resp.body).toStrictEqual({
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000001-01',
+      tracestate: 'vendor=value'
+    })
+    expect(tracer.spans).toHaveLength(1)
+    expect(tracer.spans[0]).toMatchObject({
+      attributes: {
+        'http.request.method': 'GET',
+        'http.response.status_code': 200,
+        'server.address': 'api.example.com',
+        'server.port': 8443,
+        'url.full': 'https://api.example.com:8443/users'
+      },
+      ended: true,
+      kind: 2,
+      name: 'GET'
+    })
+    expect(tracer.spans[0].status).toBeUndefined()
+  })
+
+  it('should create a span for each attempt', async () => {
+    const tracer = createTracer()
+    const client = new FetchClient({ baseUrl: 'https://api.example.com', fetch: mock.fetch, tracer })
+    await client.get('/flaky', { retry: { attempts: 2, delay: 0 } })
+
+    expect(tracer.spans).toHaveLength(2)
+    expect(tracer.spans[0].status).toStrictEqual({ code: 2 })
+    expect(tracer.spans[0].attributes).toMatchObject({ 'error.type': '503', 'http.response.status_code': 503 })
+    expect(tracer.spans[1].attributes).toMatchObject({ 'http.request.resend_count': 1, 'http.response.status_code': 200 })
+    expect(tracer.spans.every((span) => span.ended)).toBe(true)
+  })
+
+  it('should record errors', async () => {
+    const tracer = createTracer()
+    const client = new FetchClient({ baseUrl: 'https://api.example.com', fetch: mock.fetch, responseType: 'json', tracer })
+    await expect(client.get('/missing')).rejects.toThrow(FetchResponseError)
+    await expect(client.get('/invalid')).rejects.toThrow()
+
+    expect(tracer.spans[0]).toMatchObject({ attributes: { 'error.type': '404' }, ended: true, status: { code: 2 } })
+    expect(tracer.spans[1]).toMatchObject({ attributes: { 'error.type': 'FetchParseError' }, ended: true, status: { code: 2 } })
+    expect(tracer.spans[1].exceptions).toHaveLength(1)
+  })
+
+  it('should work with a no-op tracer', async () => {
+    const client = new FetchClient({ baseUrl: 'https://api.example.com', fetch: mock.fetch, responseType: 'json', tracer: noopTracer })
+    expect((await client.get('/users')).body).toStrictEqual({ traceparent: null, tracestate: null })
+  })
+})
+
+describe('formatTraceparent()', () => {
+  it('should return the traceparent of a span context', () => {
+    expect(formatTraceparent({ spanId: '00f067aa0ba902b7', traceFlags: 1, traceId: '4bf92f3577b34da6a3ce929d0e0e4736' }))
+      .toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')
+  })
+
+  it('should return undefined if the span context is invalid', () => {
+    expect(formatTraceparent({ spanId: '0000000000000000', traceFlags: 0, traceId: '4bf92f3577b34da6a3ce929d0e0e4736' })).toBeUndefined()
+    expect(formatTraceparent({ spanId: '00f067aa0ba902b7', traceFlags: 0, traceId: '0'.repeat(32) })).toBeUndefined()
+    expect(formatTraceparent({ spanId: 'xyz', traceFlags: 0, traceId: '4bf92f3577b34da6a3ce929d0e0e4736' })).toBeUndefined()
+  })
+})
+
+describe('injectTraceContext()', () => {
+  it('should keep headers', () => {
+    const headers = injectTraceContext({ accept: 'application/json' }, noopTracer.startSpan('GET'))
+    expect(headers.get('accept')).toBe('application/json')
+    expect(headers.has('traceparent')).toBe(false)
+  })
+})